@@ -1,4 +1,5 @@
-import React, { useState, useEffect } from 'react';
+import React, { useEffect } from 'react';
+import { Routes, Route, useLocation, useNavigate, useParams } from 'react-router-dom';
 import { Navigation } from './components/Navigation';
 import { DebugToggleButton } from './components/DebugPanel';
 import { StatusBar } from './components/StatusBar';
@@ -8,7 +9,19 @@ import { ProductsPage } from './components/pages/ProductsPage';
 import { ProductDetailPage } from './components/pages/ProductDetailPage';
 import { SearchPage } from './components/pages/SearchPage';
 import { CheckoutPage } from './components/pages/CheckoutPage';
-import { Toaster } from 'sonner';
+import { NotFoundPage } from './components/pages/NotFoundPage';
+import { getProductById } from './lib/products';
+import {
+  ROUTES,
+  getPagePath,
+  getPageFromPath,
+  getProductPath,
+  parseProductId,
+  withPersistentParams,
+} from './lib/routes';
+import { startRouteSession } from './lib/route-metrics';
+import { subscribeToHistory } from './lib/performance-history';
+import { Toaster, toast } from 'sonner';
 
 if (import.meta.env.DEV) {
   import('./lib/asset-verification').then(({ verifyAssets }) => {
@@ -16,67 +29,91 @@ if (import.meta.env.DEV) {
   });
 }
 
-type Page = 'home' | 'products' | 'search' | 'checkout' | 'product-detail';
+interface ProductDetailRouteProps {
+  onNavigate: (page: string) => void;
+}
+
+function ProductDetailRoute({ onNavigate }: ProductDetailRouteProps) {
+  const { productId } = useParams();
+  const id = parseProductId(productId);
+
+  if (id === null || !getProductById(id)) {
+    return <NotFoundPage onNavigate={onNavigate} />;
+  }
+
+  return <ProductDetailPage key={id} productId={id} onNavigate={onNavigate} />;
+}
 
 function App() {
-  const [currentPage, setCurrentPage] = useState<Page>('home');
-  const [selectedProductId, setSelectedProductId] = useState<number | null>(null);
+  const location = useLocation();
+  const navigate = useNavigate();
+  const currentPage = getPageFromPath(location.pathname);
 
   // Initialize performance marks
   useEffect(() => {
     performance.mark('app-start');
   }, []);
 
+  // Alert when this page load is worse than the previous loads with the same flags
+  useEffect(() => {
+    // The run is saved again whenever the tab is hidden; only toast when the regressions change
+    let shownMetrics = '';
+    return subscribeToHistory(regressions => {
+      const metrics = regressions.map(r => r.metric).join(',');
+      if (metrics === shownMetrics) return;
+      shownMetrics = metrics;
+      if (regressions.length === 0) return;
+      toast.warning(`Performance regression: ${regressions.map(r => r.name).join(', ')}`, {
+        description: 'Compared with previous loads of this page with the same flags. See History in the performance dashboard.',
+      });
+    });
+  }, []);
+
+  // Start each page at the top, like a full page load would
+  useEffect(() => {
+    window.scrollTo(0, 0);
+  }, [location.pathname]);
+
+  // Give each visited route its own LCP, CLS and INP; runs after the page marked its start
+  useEffect(() => {
+    startRouteSession(currentPage, location.pathname);
+  }, [location.pathname]);
+
   const handleNavigation = (page: string) => {
-    setCurrentPage(page as Page);
-    if (page !== 'product-detail') {
-      setSelectedProductId(null);
-    }
+    navigate(withPersistentParams(getPagePath(page), location.search));
   };
 
   const handleProductClick = (productId: number) => {
-    setSelectedProductId(productId);
-    setCurrentPage('product-detail');
-  };
-
-  const renderCurrentPage = () => {
-    switch (currentPage) {
-      case 'home':
-        return <HomePage onNavigate={handleNavigation} />;
-      case 'products':
-        return <ProductsPage onProductClick={handleProductClick} onNavigate={handleNavigation} />;
-      case 'product-detail':
-        return selectedProductId ? (
-          <ProductDetailPage 
-            productId={selectedProductId} 
-            onNavigate={handleNavigation}
-          />
-        ) : (
-          <ProductsPage onProductClick={handleProductClick} onNavigate={handleNavigation} />
-        );
-      case 'search':
-        return <SearchPage onProductClick={handleProductClick} onNavigate={handleNavigation} />;
-      case 'checkout':
-        return <CheckoutPage onNavigate={handleNavigation} />;
-      default:
-        return <HomePage />;
-    }
+    navigate(withPersistentParams(getProductPath(productId), location.search));
   };
 
   return (
     <div className="min-h-screen bg-background text-foreground">
-      <Navigation currentPage={currentPage} onNavigate={handleNavigation} />
+      <Navigation currentPage={currentPage} />
       
       <main>
-        {renderCurrentPage()}
+        <Routes>
+          <Route path={ROUTES.home} element={<HomePage onNavigate={handleNavigation} />} />
+          <Route
+            path={ROUTES.products}
+            element={<ProductsPage onProductClick={handleProductClick} onNavigate={handleNavigation} />}
+          />
+          <Route path={ROUTES.productDetail} element={<ProductDetailRoute onNavigate={handleNavigation} />} />
+          <Route
+            path={ROUTES.search}
+            element={<SearchPage onProductClick={handleProductClick} onNavigate={handleNavigation} />}
+          />
+          <Route path={ROUTES.checkout} element={<CheckoutPage onNavigate={handleNavigation} />} />
+          <Route path="*" element={<NotFoundPage onNavigate={handleNavigation} />} />
+        </Routes>
       </main>
 
       <Toaster position="bottom-right" richColors />
       <PerformanceDashboardButton />
       <DebugToggleButton />
-      <StatusBar />
+      <StatusBar currentPage={currentPage} />
     </div>
   );
 }
 
-export default App;
\ No newline at end of file
+export default App;
@@ -0,0 +1,155 @@
+import React, { useRef, useState } from 'react';
+import { DownloadSimple, UploadSimple, FloppyDisk, Warning } from '@phosphor-icons/react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  BUDGET_METRICS,
+  PERFORMANCE_BUDGETS,
+  getCustomBudget,
+  setCustomBudget,
+  validateBudget,
+  type PerformanceBudget,
+  type PresetBudgetLevel,
+} from '@/lib/performance-budgets';
+import { parseBudgetFile, toBudgetFile } from '@/lib/budget-file';
+import { downloadFile } from '@/lib/utils';
+
+type BudgetDraft = Record<keyof PerformanceBudget, string>;
+
+function toDraft(budget: PerformanceBudget): BudgetDraft {
+  return Object.fromEntries(
+    BUDGET_METRICS.map(({ key }) => [key, String(budget[key])])
+  ) as BudgetDraft;
+}
+
+// Empty fields stay missing so validation reports them as required
+function fromDraft(draft: BudgetDraft): Record<string, number> {
+  return Object.fromEntries(
+    Object.entries(draft)
+      .filter(([, value]) => value.trim() !== '')
+      .map(([key, value]) => [key, Number(value)])
+  );
+}
+
+interface CustomBudgetEditorProps {
+  onSave: () => void;
+}
+
+export function CustomBudgetEditor({ onSave }: CustomBudgetEditorProps) {
+  const [draft, setDraft] = useState<BudgetDraft>(() => toDraft(getCustomBudget()));
+  const [errors, setErrors] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const save = (budget: PerformanceBudget) => {
+    setCustomBudget(budget);
+    setDraft(toDraft(budget));
+    setErrors([]);
+    onSave();
+  };
+
+  const handleSave = () => {
+    const { budget, errors: validationErrors } = validateBudget(fromDraft(draft));
+    if (!budget) {
+      setErrors(validationErrors);
+      return;
+    }
+    save(budget);
+    toast.success('Custom budget saved');
+  };
+
+  const handleCopyPreset = (level: PresetBudgetLevel) => {
+    setDraft(toDraft(PERFORMANCE_BUDGETS[level]));
+    setErrors([]);
+  };
+
+  const handleExport = () => {
+    downloadFile(JSON.stringify(toBudgetFile(getCustomBudget()), null, 2), 'budget.json', 'application/json');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const { budget, errors: importErrors } = parseBudgetFile(await file.text(), getCustomBudget());
+    if (!budget) {
+      setErrors(importErrors);
+      toast.error('Import failed', { description: importErrors[0] });
+      return;
+    }
+    save(budget);
+    toast.success(`Imported ${file.name}`);
+  };
+
+  return (
+    <div className="space-y-4 mt-4 pt-4 border-t" data-cy="custom-budget-editor">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select onValueChange={value => handleCopyPreset(value as PresetBudgetLevel)}>
+          <SelectTrigger className="w-48 h-8">
+            <SelectValue placeholder="Copy a preset..." />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="conservative">Conservative</SelectItem>
+            <SelectItem value="moderate">Moderate</SelectItem>
+            <SelectItem value="relaxed">Relaxed</SelectItem>
+          </SelectContent>
+        </Select>
+        <div className="flex-1" />
+        <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+          <UploadSimple size={14} className="mr-1" />
+          Import budget.json
+        </Button>
+        <Button variant="outline" size="sm" onClick={handleExport}>
+          <DownloadSimple size={14} className="mr-1" />
+          Export budget.json
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={handleImport}
+        />
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        {BUDGET_METRICS.map(({ key, name, unit }) => (
+          <label key={key} className="space-y-1">
+            <span className="text-xs text-muted-foreground">
+              {name}{unit && ` (${unit})`}
+            </span>
+            <Input
+              type="number"
+              min={0}
+              max={unit === '%' ? 100 : undefined}
+              step="any"
+              value={draft[key]}
+              onChange={e => setDraft(prev => ({ ...prev, [key]: e.target.value }))}
+              className="h-8"
+            />
+          </label>
+        ))}
+      </div>
+
+      {errors.length > 0 && (
+        <div className="p-3 rounded-md border border-red-200 bg-red-50 text-sm text-red-700 space-y-1">
+          {errors.map(error => (
+            <div key={error} className="flex items-center gap-2">
+              <Warning size={14} />
+              {error}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <Button size="sm" onClick={handleSave}>
+          <FloppyDisk size={14} className="mr-1" />
+          Save Custom Budget
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+import React, { useEffect, useState } from 'react';
+import { cn } from '@/lib/utils';
+import { formatMs } from '@/lib/format';
+import {
+  getOverlaySettings,
+  subscribeToOverlaySettings,
+  type OverlaySettings,
+} from '@/lib/debug-overlays';
+import { getMetricsEngine, getVitalRating, VITAL_THRESHOLDS, type MetricsSnapshot, type VitalRating } from '@/lib/metrics-engine';
+import type { AttributionRect, LayoutShiftEntry } from '@/lib/metric-attribution';
+
+interface FlashedShift {
+  id: number;
+  value: number;
+  rects: { previous: AttributionRect; current: AttributionRect }[];
+}
+
+// How long a layout shift stays on screen
+const SHIFT_FLASH_DURATION = 2000;
+
+const RATING_STYLES: Record<VitalRating, { border: string; label: string }> = {
+  good: { border: 'border-green-500', label: 'bg-green-600' },
+  'needs-improvement': { border: 'border-yellow-500', label: 'bg-yellow-600' },
+  poor: { border: 'border-red-500', label: 'bg-red-600' },
+};
+
+// The element itself while React keeps it mounted, otherwise whatever matches its selector now
+function findElement(element: Element | null | undefined, selector: string | null): Element | null {
+  if (element?.isConnected) return element;
+  if (!selector || selector.startsWith('#text')) return null;
+  try {
+    return document.querySelector(selector);
+  } catch {
+    // Tailwind classes such as md:grid-cols-2 are not valid in a selector
+    return null;
+  }
+}
+
+function OverlayBox({ rect, label, border, labelClassName, dashed }: {
+  rect: AttributionRect;
+  label?: string;
+  border: string;
+  labelClassName?: string;
+  dashed?: boolean;
+}) {
+  return (
+    <div
+      className={cn('absolute border-2 rounded-sm', border, dashed && 'border-dashed')}
+      style={{ left: rect.x, top: rect.y, width: rect.width, height: rect.height }}
+    >
+      {label && (
+        <span className={cn('absolute -top-5 left-0 px-1 text-[11px] font-mono text-white rounded-sm whitespace-nowrap', labelClassName)}>
+          {label}
+        </span>
+      )}
+    </div>
+  );
+}
+
+export function DebugOverlays() {
+  const [settings, setSettings] = useState<OverlaySettings>(getOverlaySettings);
+  const [snapshot, setSnapshot] = useState<MetricsSnapshot | null>(null);
+  const [shifts, setShifts] = useState<FlashedShift[]>([]);
+  // Bumped on scroll and resize so outlines follow their elements
+  const [, setFrame] = useState(0);
+
+  const watchesMetrics = settings.lcp || settings.interactions;
+  const enabled = watchesMetrics || settings.layoutShifts;
+
+  useEffect(() => subscribeToOverlaySettings(setSettings), []);
+
+  useEffect(() => {
+    if (!watchesMetrics) return;
+
+    const engine = getMetricsEngine();
+    setSnapshot(engine.getSnapshot());
+    return engine.subscribe(setSnapshot);
+  }, [watchesMetrics]);
+
+  useEffect(() => {
+    if (!watchesMetrics) return;
+
+    let scheduled = 0;
+    const update = () => {
+      if (scheduled) return;
+      scheduled = requestAnimationFrame(() => {
+        scheduled = 0;
+        setFrame(frame => frame + 1);
+      });
+    };
+    window.addEventListener('scroll', update, { capture: true, passive: true });
+    window.addEventListener('resize', update);
+    return () => {
+      cancelAnimationFrame(scheduled);
+      window.removeEventListener('scroll', update, { capture: true });
+      window.removeEventListener('resize', update);
+    };
+  }, [watchesMetrics]);
+
+  // Only shifts from now on: source rects are viewport positions at the time of the shift
+  useEffect(() => {
+    if (!settings.layoutShifts || typeof PerformanceObserver === 'undefined') return;
+
+    let nextId = 0;
+    const timers = new Set<ReturnType<typeof setTimeout>>();
+    let observer: PerformanceObserver | null = null;
+
+    try {
+      observer = new PerformanceObserver(list => {
+        const flashed = (list.getEntries() as LayoutShiftEntry[])
+          .filter(entry => !entry.hadRecentInput && entry.sources?.length)
+          .map(entry => ({
+            id: nextId++,
+            value: entry.value,
+            rects: entry.sources!.map(source => ({ previous: source.previousRect, current: source.currentRect })),
+          }));
+        if (flashed.length === 0) return;
+
+        setShifts(current => [...current, ...flashed]);
+        const timer = setTimeout(() => {
+          timers.delete(timer);
+          const ids = new Set(flashed.map(shift => shift.id));
+          setShifts(current => current.filter(shift => !ids.has(shift.id)));
+        }, SHIFT_FLASH_DURATION);
+        timers.add(timer);
+      });
+      observer.observe({ type: 'layout-shift' });
+    } catch (error) {
+      console.warn('Layout Instability API not supported, shift overlay unavailable:', error);
+    }
+
+    return () => {
+      observer?.disconnect();
+      timers.forEach(clearTimeout);
+      setShifts([]);
+    };
+  }, [settings.layoutShifts]);
+
+  if (!enabled) return null;
+
+  const lcp = settings.lcp ? snapshot?.vitals.lcp : undefined;
+  const lcpEntry = lcp?.entries[lcp.entries.length - 1] as LargestContentfulPaint | undefined;
+  const lcpElement = lcp ? findElement(lcpEntry?.element, snapshot?.attribution.lcp?.element ?? null) : null;
+  const lcpStyle = lcp ? RATING_STYLES[getVitalRating('lcp', lcp.value)] : null;
+
+  const interactions = settings.interactions && snapshot ? snapshot.interactions : null;
+  const slowInteractions = (interactions?.worstInteractions ?? [])
+    .filter(interaction => interaction.latency > VITAL_THRESHOLDS.inp.good)
+    .flatMap(interaction => {
+      const element = findElement(interaction.entries[0]?.target as Element | null, interaction.target);
+      return element ? [{ interaction, rect: element.getBoundingClientRect() }] : [];
+    });
+
+  return (
+    <div className="fixed inset-0 pointer-events-none z-[999]" data-cy="debug-overlays">
+      {lcp && lcpElement && lcpStyle && (
+        <OverlayBox
+          rect={lcpElement.getBoundingClientRect()}
+          label={`LCP ${formatMs(lcp.value)}${lcp.final ? '' : ' (candidate)'}`}
+          border={lcpStyle.border}
+          labelClassName={lcpStyle.label}
+        />
+      )}
+
+      {shifts.flatMap(shift => shift.rects.map((rects, index) => (
+        <React.Fragment key={`${shift.id}-${index}`}>
+          <OverlayBox rect={rects.previous} border="border-red-400" dashed />
+          <div
+            className="absolute bg-red-500/20 border-2 border-red-500 rounded-sm animate-pulse"
+            style={{ left: rects.current.x, top: rects.current.y, width: rects.current.width, height: rects.current.height }}
+          >
+            {index === 0 && (
+              <span className="absolute -top-5 left-0 px-1 text-[11px] font-mono text-white bg-red-600 rounded-sm whitespace-nowrap">
+                shift {shift.value.toFixed(3)}
+              </span>
+            )}
+          </div>
+        </React.Fragment>
+      )))}
+
+      {slowInteractions.map(({ interaction, rect }) => {
+        const style = RATING_STYLES[getVitalRating('inp', interaction.latency)];
+        const isINP = interaction.latency === interactions?.inp;
+        return (
+          <OverlayBox
+            key={interaction.id}
+            rect={rect}
+            label={`${interaction.entries[0]?.name ?? 'interaction'} ${formatMs(interaction.latency)}${isINP ? ' · INP' : ''}`}
+            border={style.border}
+            labelClassName={style.label}
+            dashed={!isINP}
+          />
+        );
+      })}
+    </div>
+  );
+}
@@ -1,100 +1,137 @@
 import React, { useState, useEffect } from 'react';
-import { X, Gear, ChartBar } from '@phosphor-icons/react';
+import { X, Gear, ChartBar, LinkSimple, Warning, Crosshair } from '@phosphor-icons/react';
+import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { Card } from '@/components/ui/card';
-import { getFlags, setFlag, getActiveFlagCount } from '@/lib/performance-flags';
-import type { PerformanceFlags } from '@/lib/types';
 import {
-  injectThirdPartyScript,
-  removeThirdPartyScript,
-  loadExtraCSS,
-  removeExtraCSS,
-  addFontPreconnect,
-  removeFontPreconnect,
-} from '@/lib/performance-utils';
+  setFlag,
+  getActiveFlagCount,
+  getFlagsShareUrl,
+  isFlagParameter,
+  formatFlagValue,
+} from '@/lib/performance-flags';
+import { getFlagDefinition, getFlagGroups, validateFlags } from '@/lib/flag-registry';
+import { getExperiment } from '@/lib/experiment-runner';
+import {
+  getOverlaySettings,
+  setOverlaySetting,
+  subscribeToOverlaySettings,
+  type OverlaySettings,
+} from '@/lib/debug-overlays';
+import type { PerformanceFlags, BooleanFlagKey, FlagParameterKey } from '@/lib/types';
+import { useFlags } from '@/hooks/use-flags';
 import PerformanceBudgetDashboard from './PerformanceBudgetDashboard';
+import { FlagScenarios } from './FlagScenarios';
+import { ExperimentRunner } from './ExperimentRunner';
+import { DebugOverlays } from './DebugOverlays';
 
 interface DebugPanelProps {
   visible: boolean;
   onClose: () => void;
 }
 
-const FLAG_GROUPS = {
-  'LCP/CLS': [
-    { key: 'heroPreload', label: 'Hero Preload', description: 'Preload hero image' },
-    { key: 'heroFetchPriorityHigh', label: 'Hero Fetch Priority', description: 'High priority fetch' },
-    { key: 'fontPreconnect', label: 'Font Preconnect', description: 'Preconnect to fonts' },
-    { key: 'reserveHeroSpace', label: 'Reserve Hero Space', description: 'Fixed hero dimensions' },
-    { key: 'lateBanner', label: 'Late Banner', description: 'Banner causes CLS' },
-  ],
-  'Coverage/Network': [
-    { key: 'injectThirdParty', label: 'Third Party Script', description: 'Heavy blocking script' },
-    { key: 'loadExtraCSS', label: 'Extra CSS', description: 'Unused CSS rules' },
-    { key: 'lazyOff', label: 'Disable Lazy Loading', description: 'Load all images eagerly' },
-  ],
-  'INP/Long Tasks': [
-    { key: 'listenersPassive', label: 'Passive Listeners', description: 'Use passive event listeners' },
-    { key: 'simulateLongTask', label: 'Simulate Long Task', description: 'Block main thread 120ms' },
-    { key: 'useWorker', label: 'Use Worker', description: 'Move work to worker thread' },
-  ],
-  'Search/Input': [
-    { key: 'debounce', label: 'Debounce Input', description: 'Debounce search input' },
-    { key: 'microYield', label: 'Micro Yield', description: 'Yield between chunks' },
-  ],
-  'CLS/UX': [
-    { key: 'missingSizes', label: 'Missing Image Sizes', description: 'Images without dimensions' },
-    { key: 'intrinsicPlaceholders', label: 'Intrinsic Placeholders', description: 'Use content-visibility' },
-  ],
-} as const;
+const FLAG_GROUPS = getFlagGroups();
+
+const OVERLAY_OPTIONS: { key: keyof OverlaySettings; label: string; description: string }[] = [
+  { key: 'lcp', label: 'LCP element', description: 'Outline the current LCP candidate with its time' },
+  { key: 'layoutShifts', label: 'Layout shifts', description: 'Flash the old and new position of everything that shifts' },
+  { key: 'interactions', label: 'Slow interactions', description: 'Label targets of interactions over 200ms with their latency' },
+];
+
+interface FlagParameterControlProps {
+  flagKey: FlagParameterKey;
+  value: PerformanceFlags[FlagParameterKey];
+  onChange: (value: PerformanceFlags[FlagParameterKey]) => void;
+  onCommit: (value: PerformanceFlags[FlagParameterKey]) => void;
+}
+
+function FlagParameterControl({ flagKey, value, onChange, onCommit }: FlagParameterControlProps) {
+  const definition = getFlagDefinition(flagKey);
+  if (definition.kind === 'boolean') return null;
+
+  if (definition.kind === 'enum') {
+    return (
+      <Select value={String(value)} onValueChange={(next) => onCommit(next as PerformanceFlags[FlagParameterKey])}>
+        <SelectTrigger className="w-40 h-8 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {definition.options.map(option => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2 w-40">
+      <Slider
+        min={definition.min}
+        max={definition.max}
+        step={definition.step}
+        value={[Number(value)]}
+        onValueChange={([next]) => onChange(next)}
+        onValueCommit={([next]) => onCommit(next)}
+      />
+      <span className="text-xs font-mono w-14 text-right">{formatFlagValue(flagKey, value)}</span>
+    </div>
+  );
+}
 
 export function DebugPanel({ visible, onClose }: DebugPanelProps) {
-  const [flags, setFlags] = useState<PerformanceFlags>(getFlags());
+  const storedFlags = useFlags();
+  // Slider values while dragging, persisted once released
+  const [draftParameters, setDraftParameters] = useState<Partial<PerformanceFlags>>({});
   const [currentView, setCurrentView] = useState<'flags' | 'budget'>('flags');
+  const [overlays, setOverlays] = useState<OverlaySettings>(getOverlaySettings);
 
-  useEffect(() => {
-    const handleStorageChange = () => {
-      setFlags(getFlags());
-    };
+  useEffect(() => subscribeToOverlaySettings(setOverlays), []);
 
-    window.addEventListener('storage', handleStorageChange);
-    return () => window.removeEventListener('storage', handleStorageChange);
-  }, []);
+  const flags: PerformanceFlags = { ...storedFlags, ...draftParameters };
 
-  const handleToggle = (key: keyof PerformanceFlags) => {
-    const newValue = !flags[key];
-    setFlag(key, newValue);
-    setFlags(prev => ({ ...prev, [key]: newValue }));
-
-    // Handle side effects
-    if (key === 'injectThirdParty') {
-      if (newValue) {
-        injectThirdPartyScript();
-      } else {
-        removeThirdPartyScript();
-      }
-    }
+  // Scripts, stylesheets and preconnects follow automatically (see lib/flag-effects.ts)
+  const handleToggle = (key: BooleanFlagKey) => {
+    setFlag(key, !flags[key]);
+  };
 
-    if (key === 'loadExtraCSS') {
-      if (newValue) {
-        loadExtraCSS();
-      } else {
-        removeExtraCSS();
-      }
-    }
+  const handleParameterChange = (key: FlagParameterKey, value: PerformanceFlags[FlagParameterKey]) => {
+    setDraftParameters(prev => ({ ...prev, [key]: value }));
+  };
 
-    if (key === 'fontPreconnect') {
-      if (newValue) {
-        addFontPreconnect();
-      } else {
-        removeFontPreconnect();
-      }
+  const handleParameterCommit = (key: FlagParameterKey, value: PerformanceFlags[FlagParameterKey]) => {
+    setFlag(key, value);
+    setDraftParameters(prev => {
+      const { [key]: _committed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const handleScenarioApplied = () => {
+    setDraftParameters({});
+  };
+
+  const handleCopyLink = async () => {
+    const url = getFlagsShareUrl(flags);
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success('Link to this configuration copied', { description: url });
+    } catch (error) {
+      console.warn('Failed to copy link:', error);
+      toast.error('Could not copy link', { description: url });
     }
   };
 
   if (!visible) return null;
 
+  const warnings = validateFlags(flags);
+
   // Show Budget Dashboard if requested
   if (currentView === 'budget') {
     return (
@@ -133,6 +170,15 @@ export function DebugPanel({ visible, onClose }: DebugPanelProps) {
             <ChartBar size={16} />
             Budget Monitor
           </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleCopyLink}
+            title="Copy link to this configuration"
+            data-cy="copy-flags-link"
+          >
+            <LinkSimple size={16} />
+          </Button>
           <Button variant="ghost" size="sm" onClick={onClose}>
             <X size={16} />
           </Button>
@@ -140,22 +186,81 @@ export function DebugPanel({ visible, onClose }: DebugPanelProps) {
       </div>
 
       <div className="space-y-6">
-        {Object.entries(FLAG_GROUPS).map(([groupName, groupFlags]) => (
-          <Card key={groupName} className="p-4">
-            <h4 className="font-medium mb-3 text-primary">{groupName}</h4>
-            <div className="space-y-3">
-              {groupFlags.map(({ key, label, description }) => (
-                <div key={key} className="flex items-center justify-between">
-                  <div className="flex-1">
-                    <div className="text-sm font-medium">{label}</div>
-                    <div className="text-xs text-muted-foreground">{description}</div>
-                  </div>
-                  <Switch
-                    checked={flags[key as keyof PerformanceFlags]}
-                    onCheckedChange={() => handleToggle(key as keyof PerformanceFlags)}
-                  />
+        <FlagScenarios flags={flags} onApply={handleScenarioApplied} />
+
+        <ExperimentRunner />
+
+        <Card className="p-4" data-cy="overlay-settings">
+          <h4 className="font-medium mb-3 text-primary flex items-center gap-2">
+            <Crosshair size={16} />
+            On-page overlays
+          </h4>
+          <div className="space-y-3">
+            {OVERLAY_OPTIONS.map(({ key, label, description }) => (
+              <div key={key} className="flex items-center justify-between">
+                <div className="flex-1">
+                  <div className="text-sm font-medium">{label}</div>
+                  <div className="text-xs text-muted-foreground">{description}</div>
                 </div>
+                <Switch
+                  checked={overlays[key]}
+                  onCheckedChange={checked => setOverlaySetting(key, checked)}
+                  data-cy={`overlay-${key}`}
+                />
+              </div>
+            ))}
+          </div>
+        </Card>
+
+        {warnings.length > 0 && (
+          <Card className="p-4 border-yellow-500/50" data-cy="flag-warnings">
+            <h4 className="font-medium mb-2 flex items-center gap-2 text-yellow-600">
+              <Warning size={16} />
+              Flag warnings
+            </h4>
+            <ul className="space-y-1 text-xs text-muted-foreground">
+              {warnings.map(warning => (
+                <li key={`${warning.type}-${warning.flag}-${warning.other}`}>{warning.message}</li>
               ))}
+            </ul>
+          </Card>
+        )}
+
+        {FLAG_GROUPS.map(({ group, keys }) => (
+          <Card key={group} className="p-4">
+            <h4 className="font-medium mb-3 text-primary">{group}</h4>
+            <div className="space-y-3">
+              {keys.map(key => {
+                const { label, description, metrics, pages } = getFlagDefinition(key);
+                return (
+                  <div key={key} className="flex items-center justify-between">
+                    <div className="flex-1" title={`Applies to: ${pages === 'all' ? 'all pages' : pages.join(', ')}`}>
+                      <div className="text-sm font-medium flex items-center gap-1">
+                        {label}
+                        {metrics.map(metric => (
+                          <Badge key={metric} variant="outline" className="text-[10px] px-1 py-0">
+                            {metric}
+                          </Badge>
+                        ))}
+                      </div>
+                      <div className="text-xs text-muted-foreground">{description}</div>
+                    </div>
+                    {isFlagParameter(key) ? (
+                      <FlagParameterControl
+                        flagKey={key}
+                        value={flags[key]}
+                        onChange={(value) => handleParameterChange(key, value)}
+                        onCommit={(value) => handleParameterCommit(key, value)}
+                      />
+                    ) : (
+                      <Switch
+                        checked={flags[key]}
+                        onCheckedChange={() => handleToggle(key)}
+                      />
+                    )}
+                  </div>
+                );
+              })}
             </div>
           </Card>
         ))}
@@ -165,21 +270,15 @@ export function DebugPanel({ visible, onClose }: DebugPanelProps) {
 }
 
 export function DebugToggleButton() {
-  const [visible, setVisible] = useState(false);
-  const [activeCount, setActiveCount] = useState(0);
+  // Stay open across the reloads of an experiment, and show its results at the end
+  const [visible, setVisible] = useState(() => getExperiment() !== null);
   const [showButton, setShowButton] = useState(false);
+  const activeCount = getActiveFlagCount(useFlags());
 
   useEffect(() => {
     // Show button only when debug=1 is in URL
     const urlParams = new URLSearchParams(window.location.search);
     setShowButton(urlParams.get('debug') === '1');
-
-    // Update active count
-    const updateCount = () => setActiveCount(getActiveFlagCount());
-    updateCount();
-
-    window.addEventListener('storage', updateCount);
-    return () => window.removeEventListener('storage', updateCount);
   }, []);
 
   if (!showButton) return null;
@@ -200,6 +299,7 @@ export function DebugToggleButton() {
       </Button>
 
       <DebugPanel visible={visible} onClose={() => setVisible(false)} />
+      <DebugOverlays />
     </>
   );
 }
\ No newline at end of file
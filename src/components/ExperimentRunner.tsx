@@ -0,0 +1,214 @@
+import React, { useState } from 'react';
+import { Flask, Play, Stop, Trash } from '@phosphor-icons/react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getFlags, getScenarios, resolveScenarioFlags } from '@/lib/performance-flags';
+import {
+  MAX_RUNS,
+  MIN_RUNS,
+  cancelExperiment,
+  clearExperiment,
+  compareVariants,
+  getExperiment,
+  startExperiment,
+  type ExperimentVerdict,
+} from '@/lib/experiment-runner';
+import { formatMetricValue } from '@/lib/format';
+
+const CURRENT_FLAGS = 'current';
+
+const VERDICT_LABELS: Record<ExperimentVerdict, { label: string; className: string }> = {
+  better: { label: 'B better', className: 'bg-green-100 text-green-800 border-green-200' },
+  worse: { label: 'B worse', className: 'bg-red-100 text-red-800 border-red-200' },
+  'no-difference': { label: 'No difference', className: 'bg-gray-100 text-gray-800 border-gray-200' },
+  'not-enough-data': { label: 'Not enough runs', className: 'bg-yellow-100 text-yellow-800 border-yellow-200' },
+};
+
+function VariantPicker({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="h-8 text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={CURRENT_FLAGS}>Current flags</SelectItem>
+        {getScenarios().map(scenario => (
+          <SelectItem key={scenario.id} value={scenario.id}>{scenario.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+// Runs live across reloads, so this reads the stored experiment once per mount
+export function ExperimentRunner() {
+  const [experiment, setExperiment] = useState(getExperiment());
+  const [variantA, setVariantA] = useState(CURRENT_FLAGS);
+  const [variantB, setVariantB] = useState(getScenarios()[0]?.id ?? CURRENT_FLAGS);
+  const [runsPerVariant, setRunsPerVariant] = useState(MIN_RUNS);
+
+  const resolveVariant = (value: string) => {
+    const scenario = getScenarios().find(s => s.id === value);
+    return scenario
+      ? { label: scenario.name, flags: resolveScenarioFlags(scenario) }
+      : { label: 'Current flags', flags: getFlags() };
+  };
+
+  const handleStart = () => {
+    startExperiment({ a: resolveVariant(variantA), b: resolveVariant(variantB), runsPerVariant });
+  };
+
+  const handleCancel = () => {
+    cancelExperiment();
+    setExperiment(null);
+  };
+
+  const handleClear = () => {
+    clearExperiment();
+    setExperiment(null);
+  };
+
+  if (experiment?.status === 'running') {
+    // The warm-up load is not counted
+    const total = experiment.schedule.length - 1;
+    const completed = experiment.runs.length;
+
+    return (
+      <Card className="p-4 space-y-3" data-cy="experiment-running">
+        <h4 className="font-medium flex items-center gap-2">
+          <Flask size={16} />
+          {experiment.config.a.label} vs {experiment.config.b.label}
+        </h4>
+        <Progress value={(completed / total) * 100} />
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span>
+            {experiment.nextIndex === 0 ? 'Warm-up load' : `Load ${completed + 1} of ${total}`}
+            {' '}· the page reloads on its own
+          </span>
+          <Button variant="outline" size="sm" onClick={handleCancel}>
+            <Stop size={14} className="mr-1" />
+            Cancel
+          </Button>
+        </div>
+      </Card>
+    );
+  }
+
+  if (experiment?.status === 'done') {
+    const comparisons = compareVariants(experiment.runs);
+    const { a, b, runsPerVariant: runs } = experiment.config;
+
+    return (
+      <Card className="p-4 space-y-3" data-cy="experiment-results">
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <h4 className="font-medium flex items-center gap-2">
+              <Flask size={16} />
+              A: {a.label} · B: {b.label}
+            </h4>
+            <p className="text-xs text-muted-foreground">
+              {runs} loads each · median, p75 and spread (p25–p75) · Mann-Whitney U, p &lt; 0.05
+            </p>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleClear}>
+            <Trash size={14} className="mr-1" />
+            Clear
+          </Button>
+        </div>
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-muted-foreground border-b">
+              <th className="p-1 text-left font-medium">Metric</th>
+              <th className="p-1 text-right font-medium">A median</th>
+              <th className="p-1 text-right font-medium">B median</th>
+              <th className="p-1 text-right font-medium">Δ</th>
+              <th className="p-1 text-right font-medium">Verdict</th>
+            </tr>
+          </thead>
+          <tbody>
+            {comparisons.map(comparison => {
+              const { label, className } = VERDICT_LABELS[comparison.verdict];
+              const { unit } = comparison;
+              return (
+                <tr key={comparison.metric} className="border-b last:border-0">
+                  <td className="p-1">{comparison.name}</td>
+                  <td
+                    className="p-1 text-right font-mono"
+                    title={`p75 ${formatMetricValue(comparison.a.p75, unit)} · spread ${formatMetricValue(comparison.a.spread, unit)}`}
+                  >
+                    {formatMetricValue(comparison.a.median, unit)}
+                  </td>
+                  <td
+                    className="p-1 text-right font-mono"
+                    title={`p75 ${formatMetricValue(comparison.b.p75, unit)} · spread ${formatMetricValue(comparison.b.spread, unit)}`}
+                  >
+                    {formatMetricValue(comparison.b.median, unit)}
+                  </td>
+                  <td className="p-1 text-right font-mono">
+                    {comparison.difference > 0 ? '+' : ''}{formatMetricValue(comparison.difference, unit)}
+                  </td>
+                  <td className="p-1 text-right">
+                    <Badge
+                      variant="outline"
+                      className={`text-[10px] px-1 py-0 ${className}`}
+                      title={comparison.pValue !== null ? `p = ${comparison.pValue.toFixed(3)}` : undefined}
+                    >
+                      {label}
+                    </Badge>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        <p className="text-xs text-muted-foreground">Hover a median for its p75 and spread</p>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="p-4 space-y-3" data-cy="experiment-setup">
+      <div>
+        <h4 className="font-medium flex items-center gap-2">
+          <Flask size={16} />
+          A/B Experiment
+        </h4>
+        <p className="text-xs text-muted-foreground">
+          Reloads this page with each flag set, alternating A and B after one warm-up load, then restores your flags
+        </p>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <label className="space-y-1 text-xs">
+          <span className="font-medium">Variant A</span>
+          <VariantPicker value={variantA} onChange={setVariantA} />
+        </label>
+        <label className="space-y-1 text-xs">
+          <span className="font-medium">Variant B</span>
+          <VariantPicker value={variantB} onChange={setVariantB} />
+        </label>
+      </div>
+      <div className="flex items-end justify-between gap-2">
+        <label className="space-y-1 text-xs">
+          <span className="font-medium">Loads per variant</span>
+          <Input
+            type="number"
+            min={MIN_RUNS}
+            max={MAX_RUNS}
+            // NaN while the field is empty; startExperiment falls back to MIN_RUNS
+            value={Number.isNaN(runsPerVariant) ? '' : runsPerVariant}
+            onChange={event => setRunsPerVariant(event.target.valueAsNumber)}
+            className="h-8 w-24"
+          />
+        </label>
+        <Button size="sm" onClick={handleStart} disabled={variantA === variantB} data-cy="start-experiment">
+          <Play size={14} className="mr-1" />
+          Start
+        </Button>
+      </div>
+    </Card>
+  );
+}
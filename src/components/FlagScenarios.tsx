@@ -0,0 +1,159 @@
+import React, { useRef, useState } from 'react';
+import { DownloadSimple, UploadSimple, Trash, FloppyDisk } from '@phosphor-icons/react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  applyScenario,
+  deleteScenario,
+  exportScenarios,
+  getActiveScenario,
+  getScenarios,
+  importScenarios,
+  saveScenario,
+} from '@/lib/performance-flags';
+import type { PerformanceFlags } from '@/lib/types';
+import { downloadFile } from '@/lib/utils';
+
+interface FlagScenariosProps {
+  flags: PerformanceFlags;
+  onApply: (flags: PerformanceFlags) => void;
+}
+
+export function FlagScenarios({ flags, onApply }: FlagScenariosProps) {
+  const [scenarios, setScenarios] = useState(getScenarios());
+  const [scenarioName, setScenarioName] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const activeScenario = getActiveScenario(flags);
+  const customScenarios = scenarios.filter(scenario => !scenario.builtIn);
+
+  const handleSelect = (id: string) => {
+    const next = applyScenario(id);
+    if (next) {
+      onApply(next);
+      toast.success(`Scenario applied: ${scenarios.find(s => s.id === id)?.name ?? id}`);
+    }
+  };
+
+  const handleSave = () => {
+    try {
+      const saved = saveScenario(scenarioName, '', flags);
+      setScenarios(getScenarios());
+      setScenarioName('');
+      toast.success(`Scenario saved: ${saved.name}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save scenario');
+    }
+  };
+
+  const handleDelete = (id: string) => {
+    deleteScenario(id);
+    setScenarios(getScenarios());
+  };
+
+  const handleExport = () => {
+    downloadFile(exportScenarios(), 'hypercart-scenarios.json', 'application/json');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = importScenarios(await file.text());
+      setScenarios(getScenarios());
+      toast.success(`Imported ${imported.length} scenario${imported.length !== 1 ? 's' : ''}`);
+    } catch (error) {
+      toast.error(`Import failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  return (
+    <Card className="p-4">
+      <h4 className="font-medium mb-3 text-primary">Scenarios</h4>
+      <div className="space-y-3">
+        <Select value={activeScenario?.id ?? ''} onValueChange={handleSelect}>
+          <SelectTrigger className="w-full" data-cy="scenario-select">
+            <SelectValue placeholder="Custom configuration" />
+          </SelectTrigger>
+          <SelectContent>
+            {scenarios.map(scenario => (
+              <SelectItem key={scenario.id} value={scenario.id}>
+                {scenario.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="text-xs text-muted-foreground">
+          {activeScenario
+            ? activeScenario.description || 'Saved scenario'
+            : 'Current flags do not match a saved scenario'}
+        </div>
+
+        {customScenarios.length > 0 && (
+          <div className="space-y-1">
+            {customScenarios.map(scenario => (
+              <div key={scenario.id} className="flex items-center justify-between text-sm">
+                <span className="truncate">{scenario.name}</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDelete(scenario.id)}
+                  title={`Delete ${scenario.name}`}
+                >
+                  <Trash size={14} />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Input
+            value={scenarioName}
+            onChange={(e) => setScenarioName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            placeholder="Save current flags as..."
+            className="h-8 text-sm"
+          />
+          <Button size="sm" onClick={handleSave} disabled={!scenarioName.trim()}>
+            <FloppyDisk size={14} />
+          </Button>
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex-1"
+            onClick={handleExport}
+            disabled={customScenarios.length === 0}
+          >
+            <DownloadSimple size={14} className="mr-1" />
+            Export
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex-1"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <UploadSimple size={14} className="mr-1" />
+            Import
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleImport}
+          />
+        </div>
+      </div>
+    </Card>
+  );
+}
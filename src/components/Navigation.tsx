@@ -1,17 +1,21 @@
-import React, { useState, useEffect } from 'react';
+import React from 'react';
+import { Link, useLocation } from 'react-router-dom';
 import { ShoppingCart } from '@phosphor-icons/react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { CartItem } from '@/lib/types';
 import { useCart } from '@/hooks/use-cart';
+import { getPagePath, withPersistentParams } from '@/lib/routes';
 
 interface NavigationProps {
   currentPage: string;
-  onNavigate: (page: string) => void;
 }
 
-export function Navigation({ currentPage, onNavigate }: NavigationProps) {
+export function Navigation({ currentPage }: NavigationProps) {
   const [cart] = useCart();
+  const location = useLocation();
+
+  const linkTo = (page: string) => withPersistentParams(getPagePath(page), location.search);
 
   const navItems = [
     { path: 'home', label: 'Home' },
@@ -20,6 +24,10 @@ export function Navigation({ currentPage, onNavigate }: NavigationProps) {
     { path: 'checkout', label: 'Checkout' },
   ];
 
+  // Product detail pages keep the Products tab highlighted
+  const isActive = (path: string) =>
+    currentPage === path || (path === 'products' && currentPage === 'product-detail');
+
   const cartItemCount = (cart || []).reduce((total: number, item: CartItem) => total + item.quantity, 0);
 
   return (
@@ -27,26 +35,27 @@ export function Navigation({ currentPage, onNavigate }: NavigationProps) {
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="flex justify-between items-center h-16">
           <div className="flex items-center space-x-8">
-            <button 
-              onClick={() => onNavigate('home')}
+            <Link 
+              to={linkTo('home')}
               className="text-xl font-bold text-primary"
             >
               HyperCart Lab
-            </button>
+            </Link>
             
             <div className="hidden md:flex space-x-6">
               {navItems.map((item) => (
-                <button
+                <Link
                   key={item.path}
-                  onClick={() => onNavigate(item.path)}
+                  to={linkTo(item.path)}
+                  aria-current={isActive(item.path) ? 'page' : undefined}
                   className={`px-3 py-2 text-sm font-medium transition-colors ${
-                    currentPage === item.path
+                    isActive(item.path)
                       ? 'text-primary border-b-2 border-primary'
                       : 'text-muted-foreground hover:text-foreground'
                   }`}
                 >
                   {item.label}
-                </button>
+                </Link>
               ))}
             </div>
           </div>
@@ -56,15 +65,17 @@ export function Navigation({ currentPage, onNavigate }: NavigationProps) {
               variant="outline" 
               size="sm" 
               className="relative"
-              onClick={() => onNavigate('checkout')}
+              asChild
             >
-              <ShoppingCart size={16} className="mr-2" />
-              Cart
-              {cartItemCount > 0 && (
-                <Badge className="absolute -top-2 -right-2 min-w-5 h-5 text-xs">
-                  {cartItemCount}
-                </Badge>
-              )}
+              <Link to={linkTo('checkout')}>
+                <ShoppingCart size={16} className="mr-2" />
+                Cart
+                {cartItemCount > 0 && (
+                  <Badge className="absolute -top-2 -right-2 min-w-5 h-5 text-xs">
+                    {cartItemCount}
+                  </Badge>
+                )}
+              </Link>
             </Button>
           </div>
         </div>
@@ -73,17 +84,18 @@ export function Navigation({ currentPage, onNavigate }: NavigationProps) {
         <div className="md:hidden pb-4">
           <div className="flex flex-wrap gap-2">
             {navItems.map((item) => (
-              <button
+              <Link
                 key={item.path}
-                onClick={() => onNavigate(item.path)}
+                to={linkTo(item.path)}
+                aria-current={isActive(item.path) ? 'page' : undefined}
                 className={`px-3 py-1 text-sm rounded transition-colors ${
-                  currentPage === item.path
+                  isActive(item.path)
                     ? 'bg-primary text-primary-foreground'
                     : 'bg-muted text-muted-foreground hover:bg-muted/80'
                 }`}
               >
                 {item.label}
-              </button>
+              </Link>
             ))}
           </div>
         </div>
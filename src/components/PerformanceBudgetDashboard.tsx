@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useLocation } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
@@ -10,32 +11,107 @@ import {
   setBudgetLevel, 
   getBudgetSummary,
   checkBudgetViolations,
+  getCurrentBudget,
+  BUDGET_METRICS,
   type BudgetLevel,
   type BudgetStatus 
 } from '@/lib/performance-budgets';
-import { ChartBar, Warning, CheckCircle, XCircle, Speedometer } from '@phosphor-icons/react';
+import { CustomBudgetEditor } from '@/components/CustomBudgetEditor';
+import { ReportExportButtons } from '@/components/ReportExportButtons';
+import { RESOURCE_CATEGORIES, type ResourceBreakdown } from '@/lib/resource-classification';
+import { resolveBudget, getRouteLabel, type ResolvedBudget } from '@/lib/budget-scopes';
+import { getPageFromPath } from '@/lib/routes';
+import { useDeviceClass } from '@/hooks/use-device-class';
+import { formatMetricValue } from '@/lib/format';
+import { ChartBar, Warning, CheckCircle, XCircle, Speedometer, MapPin } from '@phosphor-icons/react';
 
 interface PerformanceBudgetDashboardProps {
   visible: boolean;
   onClose?: () => void;
 }
 
+const STATUS_COLORS: Record<BudgetStatus['status'], string> = {
+  pass: 'text-green-600 bg-green-50',
+  warning: 'text-yellow-600 bg-yellow-50',
+  fail: 'text-red-600 bg-red-50',
+};
+
+const PROGRESS_COLORS: Record<BudgetStatus['status'], string> = {
+  pass: '[&>div]:bg-green-500',
+  warning: '[&>div]:bg-yellow-500',
+  fail: '[&>div]:bg-red-500',
+};
+
+function getStatusIcon(status: BudgetStatus['status']) {
+  switch (status) {
+    case 'pass': return <CheckCircle size={16} className="text-green-600" />;
+    case 'warning': return <Warning size={16} className="text-yellow-600" />;
+    case 'fail': return <XCircle size={16} className="text-red-600" />;
+  }
+}
+
+// One metric in a Detailed Budget Status card: usage bar, actual / budget and percentage
+function BudgetStatusRow({ status }: { status: BudgetStatus }) {
+  return (
+    <div className="flex items-center justify-between">
+      <div className="flex items-center gap-3 flex-1">
+        {getStatusIcon(status.status)}
+        <span className="text-sm font-medium">{status.name}</span>
+      </div>
+      <div className="flex items-center gap-3 min-w-0 flex-1">
+        <Progress
+          value={Math.min(status.percentage, 100)}
+          className={`flex-1 ${PROGRESS_COLORS[status.status]}`}
+        />
+        <div className="text-sm min-w-24 text-right">
+          <span className={status.status === 'fail' ? 'text-red-600 font-medium' : ''}>
+            {formatMetricValue(status.actual, status.unit)}
+          </span>
+          <span className="text-muted-foreground">
+            {' / '}{formatMetricValue(status.budget, status.unit)}
+          </span>
+        </div>
+        <Badge
+          variant={status.status === 'pass' ? 'default' : 'secondary'}
+          className={`${STATUS_COLORS[status.status]} min-w-16 justify-center`}
+        >
+          {status.percentage}%
+        </Badge>
+      </div>
+    </div>
+  );
+}
+
 export function PerformanceBudgetDashboard({ visible, onClose }: PerformanceBudgetDashboardProps) {
   const [budgetLevel, setBudgetLevelState] = useState<BudgetLevel>(getBudgetLevel());
+  // Bumped when the custom budget is saved, to re-read it
+  const [customBudgetVersion, setCustomBudgetVersion] = useState(0);
   const [budgetStatus, setBudgetStatus] = useState<BudgetStatus[]>([]);
   const [summary, setSummary] = useState(getBudgetSummary());
   const [violations, setViolations] = useState<BudgetStatus[]>([]);
+  const [resourceBreakdown, setResourceBreakdown] = useState<ResourceBreakdown>(
+    () => getPerformanceCollector().getResourceBreakdown()
+  );
+  const [resolvedBudget, setResolvedBudget] = useState<ResolvedBudget | null>(null);
+
+  const location = useLocation();
+  const route = getPageFromPath(location.pathname);
+  const { device, reason: deviceReason } = useDeviceClass();
 
   useEffect(() => {
+    const resolved = resolveBudget(getCurrentBudget(), { route, device });
+    setResolvedBudget(resolved);
+
     const updateBudgetData = () => {
       const collector = getPerformanceCollector();
-      const statuses = collector.getBudgetStatus();
-      const currentSummary = getBudgetSummary();
-      const currentViolations = checkBudgetViolations();
+      const statuses = collector.getBudgetStatus(resolved.budget);
+      const currentSummary = getBudgetSummary(resolved.budget);
+      const currentViolations = checkBudgetViolations(resolved.budget);
 
       setBudgetStatus(statuses);
       setSummary(currentSummary);
       setViolations(currentViolations);
+      setResourceBreakdown(collector.getResourceBreakdown());
     };
 
     // Initial load
@@ -45,35 +121,15 @@ export function PerformanceBudgetDashboard({ visible, onClose }: PerformanceBudg
     const interval = setInterval(updateBudgetData, 2000);
 
     return () => clearInterval(interval);
-  }, [budgetLevel]);
+  }, [budgetLevel, customBudgetVersion, route, device]);
 
   const handleBudgetLevelChange = (newLevel: BudgetLevel) => {
     setBudgetLevel(newLevel);
     setBudgetLevelState(newLevel);
-    
-    // Reset collector to recalculate with new budget
-    setTimeout(() => {
-      const collector = getPerformanceCollector();
-      setBudgetStatus(collector.getBudgetStatus());
-      setSummary(getBudgetSummary());
-      setViolations(checkBudgetViolations());
-    }, 100);
-  };
-
-  const getStatusColor = (status: 'pass' | 'warning' | 'fail') => {
-    switch (status) {
-      case 'pass': return 'text-green-600 bg-green-50';
-      case 'warning': return 'text-yellow-600 bg-yellow-50';
-      case 'fail': return 'text-red-600 bg-red-50';
-    }
   };
 
-  const getStatusIcon = (status: 'pass' | 'warning' | 'fail') => {
-    switch (status) {
-      case 'pass': return <CheckCircle size={16} className="text-green-600" />;
-      case 'warning': return <Warning size={16} className="text-yellow-600" />;
-      case 'fail': return <XCircle size={16} className="text-red-600" />;
-    }
+  const handleCustomBudgetSave = () => {
+    setCustomBudgetVersion(version => version + 1);
   };
 
   const getScoreColor = (score: number) => {
@@ -82,24 +138,6 @@ export function PerformanceBudgetDashboard({ visible, onClose }: PerformanceBudg
     return 'text-red-600';
   };
 
-  const getProgressColor = (status: 'pass' | 'warning' | 'fail') => {
-    switch (status) {
-      case 'pass': return '[&>div]:bg-green-500';
-      case 'warning': return '[&>div]:bg-yellow-500';
-      case 'fail': return '[&>div]:bg-red-500';
-    }
-  };
-
-  const formatValue = (value: number, unit: string) => {
-    if (unit === 'ms' && value > 1000) {
-      return `${(value / 1000).toFixed(1)}s`;
-    }
-    if (unit === 'KB' && value > 1024) {
-      return `${(value / 1024).toFixed(1)}MB`;
-    }
-    return `${value}${unit}`;
-  };
-
   if (!visible) return null;
 
   return (
@@ -109,11 +147,14 @@ export function PerformanceBudgetDashboard({ visible, onClose }: PerformanceBudg
           <ChartBar size={24} className="text-primary" />
           <h2 className="text-xl font-semibold">Performance Budget Monitor</h2>
         </div>
-        {onClose && (
-          <Button variant="ghost" size="sm" onClick={onClose}>
-            ×
-          </Button>
-        )}
+        <div className="flex items-center gap-2">
+          <ReportExportButtons />
+          {onClose && (
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              ×
+            </Button>
+          )}
+        </div>
       </div>
 
       {/* Budget Level Selector */}
@@ -132,6 +173,7 @@ export function PerformanceBudgetDashboard({ visible, onClose }: PerformanceBudg
                 <SelectItem value="conservative">Conservative (High Performance)</SelectItem>
                 <SelectItem value="moderate">Moderate (Balanced)</SelectItem>
                 <SelectItem value="relaxed">Relaxed (Basic)</SelectItem>
+                <SelectItem value="custom">Custom</SelectItem>
               </SelectContent>
             </Select>
             <div className="flex items-center gap-2">
@@ -141,9 +183,52 @@ export function PerformanceBudgetDashboard({ visible, onClose }: PerformanceBudg
               </span>
             </div>
           </div>
+          {budgetLevel === 'custom' && <CustomBudgetEditor onSave={handleCustomBudgetSave} />}
         </CardContent>
       </Card>
 
+      {/* Applied Budget */}
+      {resolvedBudget && (
+        <Card className="mb-6" data-cy="applied-budget">
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <MapPin size={20} />
+              Applied Budget
+            </CardTitle>
+            <CardDescription>
+              The {budgetLevel} budget, adjusted for the current page and device
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <Badge variant="outline" className="capitalize">{budgetLevel}</Badge>
+              <Badge variant="outline">{getRouteLabel(route)}</Badge>
+              <Badge variant="outline" className="capitalize" title={deviceReason}>{device}</Badge>
+              <span className="text-muted-foreground">{deviceReason}</span>
+            </div>
+            {resolvedBudget.adjustments.length > 0 ? (
+              resolvedBudget.adjustments.map(adjustment => (
+                <div key={adjustment.scope} className="p-3 bg-muted/30 rounded-md space-y-1">
+                  <div className="text-sm font-medium">
+                    {adjustment.label}
+                    <span className="font-normal text-muted-foreground"> · {adjustment.reason}</span>
+                  </div>
+                  <div className="flex flex-wrap gap-x-4 text-xs font-mono text-muted-foreground">
+                    {BUDGET_METRICS.filter(({ key }) => adjustment.scale[key] !== undefined).map(({ key, name }) => (
+                      <span key={key}>{name} ×{adjustment.scale[key]}</span>
+                    ))}
+                  </div>
+                </div>
+              ))
+            ) : (
+              <div className="text-sm text-muted-foreground">
+                No route or device adjustments: the {budgetLevel} budget applies as is
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Summary Cards */}
       <div className="grid grid-cols-4 gap-4 mb-6">
         <Card>
@@ -188,7 +273,7 @@ export function PerformanceBudgetDashboard({ visible, onClose }: PerformanceBudg
                   <span className="text-sm font-medium">{violation.name}</span>
                   <div className="flex items-center gap-2">
                     <span className="text-sm text-red-600">
-                      {formatValue(violation.actual, violation.unit)} / {formatValue(violation.budget, violation.unit)}
+                      {formatMetricValue(violation.actual, violation.unit)} / {formatMetricValue(violation.budget, violation.unit)}
                     </span>
                     <Badge variant="destructive" className="text-xs">
                       {violation.percentage}%
@@ -214,34 +299,7 @@ export function PerformanceBudgetDashboard({ visible, onClose }: PerformanceBudg
             <div className="space-y-3">
               {budgetStatus
                 .filter(status => ['lcp', 'inp', 'cls', 'fcp', 'ttfb'].includes(status.metric))
-                .map((status) => (
-                <div key={status.metric} className="flex items-center justify-between">
-                  <div className="flex items-center gap-3 flex-1">
-                    {getStatusIcon(status.status)}
-                    <span className="text-sm font-medium">{status.name}</span>
-                  </div>
-                  <div className="flex items-center gap-3 min-w-0 flex-1">
-                    <Progress 
-                      value={Math.min(status.percentage, 100)} 
-                      className={`flex-1 ${getProgressColor(status.status)}`}
-                    />
-                    <div className="text-sm min-w-24 text-right">
-                      <span className={status.status === 'fail' ? 'text-red-600 font-medium' : ''}>
-                        {formatValue(status.actual, status.unit)}
-                      </span>
-                      <span className="text-muted-foreground">
-                        {' / '}{formatValue(status.budget, status.unit)}
-                      </span>
-                    </div>
-                    <Badge 
-                      variant={status.status === 'pass' ? 'default' : 'secondary'}
-                      className={`${getStatusColor(status.status)} min-w-16 justify-center`}
-                    >
-                      {status.percentage}%
-                    </Badge>
-                  </div>
-                </div>
-              ))}
+                .map(status => <BudgetStatusRow key={status.metric} status={status} />)}
             </div>
           </CardContent>
         </Card>
@@ -255,31 +313,17 @@ export function PerformanceBudgetDashboard({ visible, onClose }: PerformanceBudg
             <div className="space-y-3">
               {budgetStatus
                 .filter(status => ['totalSize', 'jsSize', 'cssSize', 'imageSize', 'requests', 'thirdPartyRequests'].includes(status.metric))
-                .map((status) => (
-                <div key={status.metric} className="flex items-center justify-between">
-                  <div className="flex items-center gap-3 flex-1">
-                    {getStatusIcon(status.status)}
-                    <span className="text-sm font-medium">{status.name}</span>
-                  </div>
-                  <div className="flex items-center gap-3 min-w-0 flex-1">
-                    <Progress 
-                      value={Math.min(status.percentage, 100)} 
-                      className={`flex-1 ${getProgressColor(status.status)}`}
-                    />
-                    <div className="text-sm min-w-24 text-right">
-                      <span className={status.status === 'fail' ? 'text-red-600 font-medium' : ''}>
-                        {formatValue(status.actual, status.unit)}
-                      </span>
-                      <span className="text-muted-foreground">
-                        {' / '}{formatValue(status.budget, status.unit)}
-                      </span>
-                    </div>
-                    <Badge 
-                      variant={status.status === 'pass' ? 'default' : 'secondary'}
-                      className={`${getStatusColor(status.status)} min-w-16 justify-center`}
-                    >
-                      {status.percentage}%
-                    </Badge>
+                .map(status => <BudgetStatusRow key={status.metric} status={status} />)}
+            </div>
+            <div className="grid grid-cols-4 gap-2 mt-4 pt-4 border-t" data-cy="resource-categories">
+              {RESOURCE_CATEGORIES.map(category => (
+                <div key={category} className="p-2 bg-muted/30 rounded-md text-center">
+                  <div className="text-xs text-muted-foreground capitalize">{category}</div>
+                  <div className="text-sm font-medium">
+                    {resourceBreakdown[category].count}
+                    <span className="text-muted-foreground font-normal">
+                      {' · '}{formatMetricValue(resourceBreakdown[category].size / 1024, 'KB')}
+                    </span>
                   </div>
                 </div>
               ))}
@@ -295,35 +339,23 @@ export function PerformanceBudgetDashboard({ visible, onClose }: PerformanceBudg
           <CardContent>
             <div className="space-y-3">
               {budgetStatus
-                .filter(status => ['longTasks', 'mainThreadTime', 'layoutShifts'].includes(status.metric))
-                .map((status) => (
-                <div key={status.metric} className="flex items-center justify-between">
-                  <div className="flex items-center gap-3 flex-1">
-                    {getStatusIcon(status.status)}
-                    <span className="text-sm font-medium">{status.name}</span>
-                  </div>
-                  <div className="flex items-center gap-3 min-w-0 flex-1">
-                    <Progress 
-                      value={Math.min(status.percentage, 100)} 
-                      className={`flex-1 ${getProgressColor(status.status)}`}
-                    />
-                    <div className="text-sm min-w-24 text-right">
-                      <span className={status.status === 'fail' ? 'text-red-600 font-medium' : ''}>
-                        {formatValue(status.actual, status.unit)}
-                      </span>
-                      <span className="text-muted-foreground">
-                        {' / '}{formatValue(status.budget, status.unit)}
-                      </span>
-                    </div>
-                    <Badge 
-                      variant={status.status === 'pass' ? 'default' : 'secondary'}
-                      className={`${getStatusColor(status.status)} min-w-16 justify-center`}
-                    >
-                      {status.percentage}%
-                    </Badge>
-                  </div>
-                </div>
-              ))}
+                .filter(status => ['longTasks', 'mainThreadTime', 'tbt', 'tti', 'layoutShifts'].includes(status.metric))
+                .map(status => <BudgetStatusRow key={status.metric} status={status} />)}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Main Thread Breakdown */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Main Thread Breakdown</CardTitle>
+            <CardDescription>Script, style/layout and idle time while the page loads, up to TTI</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {budgetStatus
+                .filter(status => ['scriptTime', 'styleLayoutTime', 'idleTime'].includes(status.metric))
+                .map(status => <BudgetStatusRow key={status.metric} status={status} />)}
             </div>
           </CardContent>
         </Card>
@@ -14,9 +14,28 @@ import {
   X,
   ChartLineUp,
   Warning,
-  CheckCircle
+  CheckCircle,
+  Cpu,
+  Crosshair,
+  Timer,
+  Signpost
 } from '@phosphor-icons/react';
 import { cn } from '@/lib/utils';
+import { getWorkerPool, type WorkerPoolStats } from '@/lib/performance-utils';
+import { getMetricsEngine, getVitalRating, type MetricsSnapshot, type VitalName } from '@/lib/metrics-engine';
+import type { MetricAttribution } from '@/lib/metric-attribution';
+import { getScriptLabel } from '@/lib/long-animation-frames';
+import { PerformanceHistory } from '@/components/PerformanceHistory';
+import { ReportExportButtons } from '@/components/ReportExportButtons';
+import { UserTimingPanel } from '@/components/UserTimingPanel';
+import { ResourceWaterfall } from '@/components/ResourceWaterfall';
+import {
+  getRouteSessions,
+  getRouteSummaries,
+  subscribeToRouteMetrics,
+  type RouteMetrics,
+  type RouteSummary,
+} from '@/lib/route-metrics';
 
 interface WebVitalMetric {
   name: string;
@@ -24,6 +43,7 @@ interface WebVitalMetric {
   rating: 'good' | 'needs-improvement' | 'poor';
   delta?: number;
   entries?: PerformanceEntry[];
+  final?: boolean;
 }
 
 interface PerformanceMetrics {
@@ -35,29 +55,22 @@ interface PerformanceMetrics {
   ttfb?: WebVitalMetric;
 }
 
-interface ResourceTiming {
-  name: string;
-  duration: number;
-  size: number;
-  type: string;
-}
-
-const THRESHOLDS = {
-  lcp: { good: 2500, poor: 4000 },
-  fid: { good: 100, poor: 300 },
-  cls: { good: 0.1, poor: 0.25 },
-  inp: { good: 200, poor: 500 },
-  fcp: { good: 1800, poor: 3000 },
-  ttfb: { good: 800, poor: 1800 },
-};
-
-function getRating(name: string, value: number): 'good' | 'needs-improvement' | 'poor' {
-  const threshold = THRESHOLDS[name as keyof typeof THRESHOLDS];
-  if (!threshold) return 'good';
-  
-  if (value <= threshold.good) return 'good';
-  if (value <= threshold.poor) return 'needs-improvement';
-  return 'poor';
+function toPerformanceMetrics(vitals: MetricsSnapshot['vitals']): PerformanceMetrics {
+  return (Object.keys(vitals) as VitalName[]).reduce<PerformanceMetrics>((acc, key) => {
+    const vital = vitals[key];
+    if (!vital) return acc;
+
+    return {
+      ...acc,
+      [key]: {
+        name: key.toUpperCase(),
+        value: vital.value,
+        rating: getVitalRating(key, vital.value),
+        entries: vital.entries,
+        final: vital.final,
+      },
+    };
+  }, {});
 }
 
 function formatValue(name: string, value: number): string {
@@ -92,149 +105,138 @@ function getRatingIcon(rating: 'good' | 'needs-improvement' | 'poor') {
   }
 }
 
+function RouteVitalCell({ name, value }: { name: string; value: number | null }) {
+  if (value === null) {
+    return <td className="p-2 text-right font-mono text-muted-foreground">—</td>;
+  }
+  return (
+    <td className="p-2 text-right">
+      <span className={cn('px-1.5 py-0.5 rounded border font-mono', getRatingColor(getVitalRating(name, value)))}>
+        {formatValue(name, value)}
+      </span>
+    </td>
+  );
+}
+
+function AttributionRow({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex items-center justify-between gap-4 text-sm">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="font-mono text-right truncate" title={value}>{value}</span>
+    </div>
+  );
+}
+
+function AttributionSection({ attribution }: { attribution: MetricAttribution }) {
+  const { lcp, inp, cls } = attribution;
+
+  return (
+    <Card data-cy="metric-attribution">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Crosshair size={20} />
+          Attribution
+        </CardTitle>
+        <CardDescription>Which element, handler and resource each metric comes from</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2 p-4 bg-muted/30 rounded-md">
+            <div className="font-medium">LCP</div>
+            {lcp ? (
+              <>
+                <AttributionRow label="Element" value={lcp.element ?? 'Unknown'} />
+                <AttributionRow label="Resource" value={lcp.url ? lcp.url.split('/').pop() || lcp.url : 'None (text)'} />
+                <AttributionRow label="Time to first byte" value={formatValue('lcp', lcp.timeToFirstByte)} />
+                <AttributionRow label="Resource load delay" value={formatValue('lcp', lcp.resourceLoadDelay)} />
+                <AttributionRow label="Resource load duration" value={formatValue('lcp', lcp.resourceLoadDuration)} />
+                <AttributionRow label="Element render delay" value={formatValue('lcp', lcp.elementRenderDelay)} />
+              </>
+            ) : (
+              <div className="text-sm text-muted-foreground">Waiting for data...</div>
+            )}
+          </div>
+
+          <div className="space-y-2 p-4 bg-muted/30 rounded-md">
+            <div className="font-medium">INP</div>
+            {inp ? (
+              <>
+                <AttributionRow label="Target" value={inp.target ?? 'Unknown'} />
+                <AttributionRow label="Event" value={inp.eventType} />
+                <AttributionRow label="Input delay" value={formatValue('inp', inp.inputDelay)} />
+                <AttributionRow label="Processing" value={formatValue('inp', inp.processingDuration)} />
+                <AttributionRow label="Presentation delay" value={formatValue('inp', inp.presentationDelay)} />
+              </>
+            ) : (
+              <div className="text-sm text-muted-foreground">No interactions yet</div>
+            )}
+          </div>
+
+          <div className="space-y-2 p-4 bg-muted/30 rounded-md">
+            <div className="font-medium">CLS</div>
+            {cls ? (
+              <>
+                <AttributionRow label="Largest shift" value={formatValue('cls', cls.largestShiftValue)} />
+                <AttributionRow label="At" value={formatValue('lcp', cls.largestShiftTime)} />
+                {cls.sources.length > 0 ? (
+                  cls.sources.map((source, index) => (
+                    <AttributionRow
+                      key={index}
+                      label={`Source ${index + 1}`}
+                      value={`${source.node ?? 'Removed node'} (${Math.round(source.currentRect.y - source.previousRect.y)}px)`}
+                    />
+                  ))
+                ) : (
+                  <div className="text-sm text-muted-foreground">No source nodes reported</div>
+                )}
+              </>
+            ) : (
+              <div className="text-sm text-muted-foreground">No layout shifts</div>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
 export function PerformanceDashboard({ visible, onClose }: { visible: boolean; onClose: () => void }) {
-  const [metrics, setMetrics] = useState<PerformanceMetrics>({});
-  const [resources, setResources] = useState<ResourceTiming[]>([]);
-  const [longTasks, setLongTasks] = useState<PerformanceEntry[]>([]);
-  const [navigationTiming, setNavigationTiming] = useState<PerformanceNavigationTiming | null>(null);
+  const [snapshot, setSnapshot] = useState<MetricsSnapshot>(() => getMetricsEngine().getSnapshot());
+  const [workerStats, setWorkerStats] = useState<WorkerPoolStats>(() => getWorkerPool().getStats());
+  const [routeSummaries, setRouteSummaries] = useState<RouteSummary[]>([]);
+  const [routeSessions, setRouteSessions] = useState<RouteMetrics[]>([]);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    const pool = getWorkerPool();
+    setWorkerStats(pool.getStats());
+    return pool.subscribe(setWorkerStats);
+  }, [visible]);
+
+  // Web Vitals come from the shared engine, which has been observing since boot
+  useEffect(() => {
+    if (!visible) return;
+
+    const engine = getMetricsEngine();
+    setSnapshot(engine.getSnapshot());
+    return engine.subscribe(setSnapshot);
+  }, [visible]);
 
   useEffect(() => {
     if (!visible) return;
 
-    const observer = new PerformanceObserver((list) => {
-      for (const entry of list.getEntries()) {
-        if (entry.entryType === 'largest-contentful-paint') {
-          const lcpEntry = entry as PerformanceEntry;
-          setMetrics(prev => ({
-            ...prev,
-            lcp: {
-              name: 'LCP',
-              value: lcpEntry.startTime,
-              rating: getRating('lcp', lcpEntry.startTime),
-              entries: [lcpEntry],
-            },
-          }));
-        }
-
-        if (entry.entryType === 'first-input') {
-          const fidEntry = entry as PerformanceEventTiming;
-          const fidValue = fidEntry.processingStart - fidEntry.startTime;
-          setMetrics(prev => ({
-            ...prev,
-            fid: {
-              name: 'FID',
-              value: fidValue,
-              rating: getRating('fid', fidValue),
-              entries: [entry],
-            },
-          }));
-        }
-
-        if (entry.entryType === 'layout-shift' && !(entry as any).hadRecentInput) {
-          const clsEntry = entry as PerformanceEntry & { value: number };
-          setMetrics(prev => {
-            const currentCLS = prev.cls?.value || 0;
-            const newCLS = currentCLS + clsEntry.value;
-            return {
-              ...prev,
-              cls: {
-                name: 'CLS',
-                value: newCLS,
-                rating: getRating('cls', newCLS),
-                entries: [...(prev.cls?.entries || []), entry],
-              },
-            };
-          });
-        }
-
-        if (entry.entryType === 'paint' && entry.name === 'first-contentful-paint') {
-          setMetrics(prev => ({
-            ...prev,
-            fcp: {
-              name: 'FCP',
-              value: entry.startTime,
-              rating: getRating('fcp', entry.startTime),
-              entries: [entry],
-            },
-          }));
-        }
-
-        if (entry.entryType === 'longtask') {
-          setLongTasks(prev => [...prev, entry]);
-        }
-      }
-    });
-
-    try {
-      observer.observe({ entryTypes: ['largest-contentful-paint', 'first-input', 'layout-shift', 'paint', 'longtask'] });
-    } catch (e) {
-      console.warn('Some performance metrics not supported:', e);
-    }
-
-    const navEntries = performance.getEntriesByType('navigation');
-    if (navEntries.length > 0) {
-      const navTiming = navEntries[0] as PerformanceNavigationTiming;
-      setNavigationTiming(navTiming);
-      
-      const ttfbValue = navTiming.responseStart - navTiming.requestStart;
-      setMetrics(prev => ({
-        ...prev,
-        ttfb: {
-          name: 'TTFB',
-          value: ttfbValue,
-          rating: getRating('ttfb', ttfbValue),
-        },
-      }));
-    }
-
-    const resourceEntries = performance.getEntriesByType('resource') as PerformanceResourceTiming[];
-    const resourceTimings: ResourceTiming[] = resourceEntries.map(entry => ({
-      name: entry.name.split('/').pop() || entry.name,
-      duration: entry.duration,
-      size: entry.transferSize || 0,
-      type: entry.initiatorType,
-    })).sort((a, b) => b.duration - a.duration).slice(0, 20);
-    
-    setResources(resourceTimings);
-
-    if ('PerformanceObserver' in window && 'PerformanceEventTiming' in window) {
-      const inpObserver = new PerformanceObserver((list) => {
-        let maxINP = 0;
-        const entries: PerformanceEntry[] = [];
-        
-        for (const entry of list.getEntries() as PerformanceEventTiming[]) {
-          const duration = entry.duration;
-          if (duration > maxINP) {
-            maxINP = duration;
-          }
-          entries.push(entry);
-        }
-        
-        if (maxINP > 0) {
-          setMetrics(prev => ({
-            ...prev,
-            inp: {
-              name: 'INP',
-              value: maxINP,
-              rating: getRating('inp', maxINP),
-              entries,
-            },
-          }));
-        }
-      });
-
-      try {
-        inpObserver.observe({ type: 'event', buffered: true });
-      } catch (e) {
-        console.warn('INP observation not supported:', e);
-      }
-    }
-
-    return () => {
-      observer.disconnect();
+    const update = () => {
+      setRouteSummaries(getRouteSummaries());
+      setRouteSessions(getRouteSessions());
     };
+    update();
+    return subscribeToRouteMetrics(update);
   }, [visible]);
 
+  const metrics = toPerformanceMetrics(snapshot.vitals);
+  const { longTasks, navigation: navigationTiming, interactions } = snapshot;
+
   if (!visible) return null;
 
   const coreMetrics = [
@@ -289,18 +291,25 @@ export function PerformanceDashboard({ visible, onClose }: { visible: boolean; o
               </CardTitle>
               <CardDescription>Real-time performance metrics and diagnostics</CardDescription>
             </div>
-            <Button variant="ghost" size="icon" onClick={onClose}>
-              <X size={20} />
-            </Button>
+            <div className="flex items-center gap-2">
+              <ReportExportButtons />
+              <Button variant="ghost" size="icon" onClick={onClose}>
+                <X size={20} />
+              </Button>
+            </div>
           </div>
         </CardHeader>
         <CardContent>
           <Tabs defaultValue="vitals" className="w-full">
-            <TabsList className="grid w-full grid-cols-4">
+            <TabsList className="grid w-full grid-cols-8">
               <TabsTrigger value="vitals">Core Vitals</TabsTrigger>
+              <TabsTrigger value="routes">Routes</TabsTrigger>
               <TabsTrigger value="resources">Resources</TabsTrigger>
               <TabsTrigger value="timing">Navigation</TabsTrigger>
               <TabsTrigger value="tasks">Long Tasks</TabsTrigger>
+              <TabsTrigger value="user-timing">User Timing</TabsTrigger>
+              <TabsTrigger value="workers">Workers</TabsTrigger>
+              <TabsTrigger value="history">History</TabsTrigger>
             </TabsList>
 
             <TabsContent value="vitals" className="space-y-6 mt-6">
@@ -334,7 +343,19 @@ export function PerformanceDashboard({ visible, onClose }: { visible: boolean; o
                             <Badge variant={metric.rating === 'good' ? 'default' : 'secondary'}>
                               {metric.rating.replace('-', ' ').toUpperCase()}
                             </Badge>
-                            {metric.entries && metric.entries.length > 0 && (
+                            {key === 'inp' ? (
+                              <div className="text-xs text-muted-foreground mt-2">
+                                98th percentile of {interactions.interactionCount} interaction{interactions.interactionCount !== 1 ? 's' : ''}
+                              </div>
+                            ) : key === 'cls' ? (
+                              <div className="text-xs text-muted-foreground mt-2">
+                                Worst session window: {metric.entries?.length ?? 0} shift{metric.entries?.length !== 1 ? 's' : ''}
+                              </div>
+                            ) : key === 'lcp' && !metric.final ? (
+                              <div className="text-xs text-muted-foreground mt-2">
+                                Updates until the first click, key press or scroll
+                              </div>
+                            ) : metric.entries && metric.entries.length > 0 && (
                               <div className="text-xs text-muted-foreground mt-2">
                                 {metric.entries.length} measurement{metric.entries.length !== 1 ? 's' : ''}
                               </div>
@@ -351,6 +372,41 @@ export function PerformanceDashboard({ visible, onClose }: { visible: boolean; o
                 })}
               </div>
 
+              {interactions.worstInteractions.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg">Slowest Interactions</CardTitle>
+                    <CardDescription>
+                      Grouped by interactionId; latency is the longest event of each interaction
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-2">
+                      {interactions.worstInteractions.map(interaction => (
+                        <div key={interaction.id} className="flex items-center justify-between p-3 bg-muted/30 rounded-md">
+                          <div className="flex-1">
+                            <div className="text-sm font-medium">
+                              {[...new Set(interaction.entries.map(entry => entry.name))].join(', ')}
+                              {interaction.latency === interactions.inp && (
+                                <Badge variant="outline" className="ml-2">INP</Badge>
+                              )}
+                            </div>
+                            <div className="text-xs text-muted-foreground">
+                              Started at {interaction.startTime.toFixed(2)}ms
+                            </div>
+                          </div>
+                          <Badge className={getRatingColor(getVitalRating('inp', interaction.latency))} variant="outline">
+                            {Math.round(interaction.latency)}ms
+                          </Badge>
+                        </div>
+                      ))}
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+
+              <AttributionSection attribution={snapshot.attribution} />
+
               <Card>
                 <CardHeader>
                   <CardTitle className="text-lg">Additional Metrics</CardTitle>
@@ -391,39 +447,98 @@ export function PerformanceDashboard({ visible, onClose }: { visible: boolean; o
               </Card>
             </TabsContent>
 
-            <TabsContent value="resources" className="mt-6">
-              <Card>
+            <TabsContent value="routes" className="space-y-6 mt-6">
+              <Card data-cy="route-metrics">
                 <CardHeader>
-                  <CardTitle>Resource Timing</CardTitle>
-                  <CardDescription>Top 20 slowest resources by load time</CardDescription>
+                  <CardTitle className="flex items-center gap-2">
+                    <Signpost size={20} />
+                    Route Comparison
+                  </CardTitle>
+                  <CardDescription>
+                    Median per route across visits. In-app navigations are measured from the page's start mark;
+                    their LCP is estimated from the largest visible image.
+                  </CardDescription>
                 </CardHeader>
                 <CardContent>
-                  <div className="space-y-2">
-                    {resources.length > 0 ? (
-                      resources.map((resource, index) => (
-                        <div 
-                          key={index}
-                          className="flex items-center justify-between p-3 bg-muted/30 rounded-md hover:bg-muted/50 transition-colors"
-                        >
-                          <div className="flex-1 min-w-0">
-                            <div className="text-sm font-medium truncate">{resource.name}</div>
-                            <div className="text-xs text-muted-foreground">
-                              {resource.type} • {(resource.size / 1024).toFixed(2)} KB
+                  {routeSummaries.length > 0 ? (
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-muted-foreground border-b">
+                          <th className="p-2 text-left font-medium">Route</th>
+                          <th className="p-2 text-right font-medium">Visits</th>
+                          <th className="p-2 text-right font-medium">LCP</th>
+                          <th className="p-2 text-right font-medium">CLS</th>
+                          <th className="p-2 text-right font-medium">INP</th>
+                          <th className="p-2 text-right font-medium">Long Tasks</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {routeSummaries.map(summary => (
+                          <tr key={summary.route} className="border-b last:border-0">
+                            <td className="p-2 font-medium">{summary.route}</td>
+                            <td className="p-2 text-right font-mono">{summary.visits}</td>
+                            <RouteVitalCell name="lcp" value={summary.lcp} />
+                            <RouteVitalCell name="cls" value={summary.cls} />
+                            <RouteVitalCell name="inp" value={summary.inp} />
+                            <td className="p-2 text-right font-mono">{summary.longTasks}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  ) : (
+                    <div className="text-sm text-muted-foreground text-center py-8">
+                      No routes visited yet
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              {routeSessions.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Recent Visits</CardTitle>
+                    <CardDescription>Each navigation, newest first</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-2">
+                      {[...routeSessions].reverse().slice(0, 10).map(session => (
+                        <div key={session.id} className="p-3 bg-muted/30 rounded-md space-y-1">
+                          <div className="flex items-center justify-between gap-4">
+                            <div className="flex items-center gap-2 min-w-0">
+                              <Badge variant={session.navigationType === 'hard' ? 'default' : 'outline'}>
+                                {session.navigationType}
+                              </Badge>
+                              <span className="text-sm font-mono truncate" title={session.path}>{session.path}</span>
+                            </div>
+                            <div className="text-xs font-mono text-muted-foreground whitespace-nowrap">
+                              {session.endTime === null
+                                ? 'current'
+                                : `${((session.endTime - session.startTime) / 1000).toFixed(1)}s on page`}
                             </div>
                           </div>
-                          <div className="text-sm font-mono font-bold ml-4">
-                            {resource.duration.toFixed(2)}ms
+                          <div className="flex flex-wrap gap-x-4 text-xs font-mono text-muted-foreground">
+                            <span>LCP {session.lcp !== null ? formatValue('lcp', session.lcp) : '—'}</span>
+                            <span>CLS {formatValue('cls', session.cls)}</span>
+                            <span>
+                              INP {session.inp !== null ? formatValue('inp', session.inp) : '—'} ({session.interactionCount} interactions)
+                            </span>
+                            <span>{session.longTasks} long tasks</span>
                           </div>
+                          {session.lcpElement && (
+                            <div className="text-xs font-mono text-muted-foreground truncate" title={session.lcpElement}>
+                              LCP element: {session.lcpElement}
+                            </div>
+                          )}
                         </div>
-                      ))
-                    ) : (
-                      <div className="text-sm text-muted-foreground text-center py-8">
-                        No resource data available
-                      </div>
-                    )}
-                  </div>
-                </CardContent>
-              </Card>
+                      ))}
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+            </TabsContent>
+
+            <TabsContent value="resources" className="mt-6">
+              <ResourceWaterfall />
             </TabsContent>
 
             <TabsContent value="timing" className="mt-6">
@@ -460,7 +575,7 @@ export function PerformanceDashboard({ visible, onClose }: { visible: boolean; o
               </Card>
             </TabsContent>
 
-            <TabsContent value="tasks" className="mt-6">
+            <TabsContent value="tasks" className="space-y-6 mt-6">
               <Card>
                 <CardHeader>
                   <CardTitle className="flex items-center gap-2">
@@ -498,6 +613,115 @@ export function PerformanceDashboard({ visible, onClose }: { visible: boolean; o
                   )}
                 </CardContent>
               </Card>
+
+              <Card data-cy="long-animation-frames">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Timer size={20} />
+                    Long Animation Frames
+                  </CardTitle>
+                  <CardDescription>
+                    Frames over 50ms and the scripts that ran in them, slowest script first
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {!snapshot.loafSupported ? (
+                    <div className="text-sm text-muted-foreground text-center py-8">
+                      long-animation-frame is not supported in this browser (Chromium 123+ required)
+                    </div>
+                  ) : snapshot.longAnimationFrames.length > 0 ? (
+                    <div className="space-y-3">
+                      {[...snapshot.longAnimationFrames].reverse().map(frame => (
+                        <div key={frame.startTime} className="p-3 bg-muted/30 rounded-md space-y-2">
+                          <div className="flex items-center justify-between">
+                            <div>
+                              <div className="text-sm font-medium">Frame at {frame.startTime.toFixed(2)}ms</div>
+                              <div className="text-xs text-muted-foreground">
+                                Blocking {frame.blockingDuration.toFixed(0)}ms
+                                {frame.styleAndLayoutStart > 0 &&
+                                  ` • Style & layout ${(frame.startTime + frame.duration - frame.styleAndLayoutStart).toFixed(0)}ms`}
+                              </div>
+                            </div>
+                            <Badge variant={frame.duration > 100 ? 'destructive' : 'secondary'}>
+                              {frame.duration.toFixed(2)}ms
+                            </Badge>
+                          </div>
+                          {frame.scripts.length > 0 ? (
+                            <div className="space-y-1">
+                              {frame.scripts.map((script, index) => (
+                                <div key={index} className="flex items-center justify-between gap-4 text-xs">
+                                  <div className="min-w-0">
+                                    <div className="font-mono truncate" title={script.sourceURL}>
+                                      {getScriptLabel(script)}
+                                    </div>
+                                    <div className="text-muted-foreground truncate">
+                                      {script.invokerType}{script.invoker && `: ${script.invoker}`}
+                                      {script.forcedStyleAndLayoutDuration > 0 &&
+                                        ` • forced style/layout ${script.forcedStyleAndLayoutDuration.toFixed(0)}ms`}
+                                    </div>
+                                  </div>
+                                  <span className="font-mono font-bold">{script.duration.toFixed(0)}ms</span>
+                                </div>
+                              ))}
+                            </div>
+                          ) : (
+                            <div className="text-xs text-muted-foreground">
+                              No script attribution (rendering work, or a cross-origin script)
+                            </div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="text-sm text-muted-foreground text-center py-8">
+                      No long animation frames detected
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="workers" className="mt-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Cpu size={20} />
+                    Worker Pool
+                  </CardTitle>
+                  <CardDescription>
+                    Shared pool used by search and product formatting when the useWorker flag is on
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-3">
+                    {[
+                      { label: 'Workers (live / max)', value: `${workerStats.workers} / ${workerStats.size}` },
+                      { label: 'Busy Workers', value: `${workerStats.busyWorkers}` },
+                      { label: 'Queue Depth', value: `${workerStats.queueDepth}` },
+                      { label: 'Completed / Failed Tasks', value: `${workerStats.completedTasks} / ${workerStats.failedTasks}` },
+                      { label: 'Last Task Latency', value: workerStats.lastLatency },
+                      { label: 'Average Task Latency', value: workerStats.averageLatency },
+                      { label: 'p95 Task Latency', value: workerStats.p95Latency },
+                      { label: 'Average Queue Wait', value: workerStats.averageWaitTime },
+                    ].map(({ label, value }) => (
+                      <div key={label} className="flex items-center justify-between p-3 bg-muted/30 rounded-md">
+                        <div className="text-sm font-medium">{label}</div>
+                        <div className="text-sm font-mono font-bold">
+                          {typeof value === 'string' ? value : value !== null ? `${value.toFixed(2)}ms` : 'N/A'}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="user-timing" className="mt-6">
+              <UserTimingPanel />
+            </TabsContent>
+
+            <TabsContent value="history" className="mt-6">
+              <PerformanceHistory />
             </TabsContent>
           </Tabs>
         </CardContent>
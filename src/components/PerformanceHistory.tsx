@@ -0,0 +1,197 @@
+import React, { useEffect, useState } from 'react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { ClockCounterClockwise, Trash, TrendUp } from '@phosphor-icons/react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { BUDGET_METRICS, type PerformanceBudget } from '@/lib/performance-budgets';
+import {
+  BASELINE_RUNS,
+  clearHistory,
+  getFlagSet,
+  getLatestRegressions,
+  getRuns,
+  subscribeToHistory,
+  type PerformanceRun,
+  type Regression,
+} from '@/lib/performance-history';
+import { formatMetricValue } from '@/lib/format';
+
+// Runs shown in the trend chart and the table
+const MAX_CHART_RUNS = 50;
+const MAX_TABLE_RUNS = 10;
+
+// Metric columns of the Recent Page Loads table
+const TABLE_METRICS = [
+  { key: 'lcp', unit: 'ms' },
+  { key: 'cls', unit: '' },
+  { key: 'inp', unit: 'ms' },
+  { key: 'tbt', unit: 'ms' },
+] as const;
+
+export function PerformanceHistory() {
+  const [runs, setRuns] = useState<PerformanceRun[]>([]);
+  const [regressions, setRegressions] = useState<Regression[]>(getLatestRegressions());
+  const [metric, setMetric] = useState<keyof PerformanceBudget>('lcp');
+  const [sameFlagSet, setSameFlagSet] = useState(true);
+
+  useEffect(() => {
+    const load = () => {
+      getRuns().then(setRuns).catch(error => console.warn('Failed to read performance history:', error));
+    };
+    load();
+    return subscribeToHistory(latest => {
+      setRegressions(latest);
+      load();
+    });
+  }, []);
+
+  const handleClear = () => {
+    clearHistory().catch(error => console.warn('Failed to clear performance history:', error));
+  };
+
+  const flagSet = getFlagSet();
+  const visibleRuns = (sameFlagSet ? runs.filter(run => run.flagSet === flagSet) : runs).slice(-MAX_CHART_RUNS);
+  const { name: metricName, unit } = BUDGET_METRICS.find(({ key }) => key === metric) ?? BUDGET_METRICS[0];
+
+  const chartData = visibleRuns.flatMap((run, index) =>
+    run.metrics[metric] === undefined
+      ? []
+      : [{ run: index + 1, value: run.metrics[metric], route: run.route }]
+  );
+  const chartConfig = { value: { label: metricName, color: 'var(--primary)' } } satisfies ChartConfig;
+
+  return (
+    <div className="space-y-6" data-cy="performance-history">
+      {regressions.length > 0 && (
+        <Card className="border-red-200 bg-red-50">
+          <CardHeader>
+            <CardTitle className="text-red-700 flex items-center gap-2">
+              <TrendUp size={20} />
+              Regressions in this page load ({regressions.length})
+            </CardTitle>
+            <CardDescription>
+              More than 2 standard deviations and 10% worse than the last {BASELINE_RUNS} loads of this page with the same flags
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {regressions.map(regression => (
+                <div key={regression.metric} className="flex items-center justify-between text-sm">
+                  <span className="font-medium">{regression.name}</span>
+                  <span className="font-mono text-red-700">
+                    {formatMetricValue(regression.value, regression.unit)}
+                    <span className="text-muted-foreground">
+                      {' '}vs {formatMetricValue(regression.baselineMean, regression.unit)}
+                      {' '}± {formatMetricValue(regression.baselineStdDev, regression.unit)} ({regression.baselineRuns} runs)
+                    </span>
+                  </span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <ClockCounterClockwise size={20} />
+                Trend
+              </CardTitle>
+              <CardDescription>
+                {runs.length} page load{runs.length !== 1 ? 's' : ''} stored in this browser
+              </CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={handleClear} disabled={runs.length === 0}>
+              <Trash size={14} className="mr-1" />
+              Clear History
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-center gap-4">
+            <Select value={metric} onValueChange={value => setMetric(value as keyof PerformanceBudget)}>
+              <SelectTrigger className="w-56 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BUDGET_METRICS.map(({ key, name }) => (
+                  <SelectItem key={key} value={key}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <label className="flex items-center gap-2 text-sm">
+              <Switch checked={sameFlagSet} onCheckedChange={setSameFlagSet} />
+              Current flag set only
+              <Badge variant="outline" className="font-mono">{flagSet || 'defaults'}</Badge>
+            </label>
+          </div>
+
+          {chartData.length > 1 ? (
+            <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+              <LineChart data={chartData} margin={{ left: 8, right: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="run" tickLine={false} axisLine={false} />
+                <YAxis tickLine={false} axisLine={false} width={48} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => `Run ${payload?.[0]?.payload.run} · ${payload?.[0]?.payload.route}`} />} />
+                <Line dataKey="value" type="monotone" stroke="var(--color-value)" strokeWidth={2} dot={{ r: 3 }} />
+              </LineChart>
+            </ChartContainer>
+          ) : (
+            <div className="text-sm text-muted-foreground text-center py-8">
+              Reload the page a few times to see a trend
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {runs.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent Page Loads</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-muted-foreground border-b">
+                  <th className="p-2 text-left font-medium">When</th>
+                  <th className="p-2 text-left font-medium">Route</th>
+                  <th className="p-2 text-left font-medium">Flags</th>
+                  <th className="p-2 text-left font-medium">Budget</th>
+                  <th className="p-2 text-right font-medium">LCP</th>
+                  <th className="p-2 text-right font-medium">CLS</th>
+                  <th className="p-2 text-right font-medium">INP</th>
+                  <th className="p-2 text-right font-medium">TBT</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...runs].reverse().slice(0, MAX_TABLE_RUNS).map(run => (
+                  <tr key={run.id} className="border-b last:border-0" title={run.userAgent}>
+                    <td className="p-2 whitespace-nowrap">{new Date(run.timestamp).toLocaleString()}</td>
+                    <td className="p-2">{run.route}</td>
+                    <td className="p-2 font-mono text-xs truncate max-w-48" title={run.flagSet}>{run.flagSet || 'defaults'}</td>
+                    <td className="p-2 capitalize">{run.budgetLevel}</td>
+                    {TABLE_METRICS.map(({ key, unit }) => {
+                      const value = run.metrics[key];
+                      return (
+                        <td key={key} className="p-2 text-right font-mono">
+                          {value !== undefined ? formatMetricValue(value, unit) : '—'}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import React from 'react';
+import { useLocation } from 'react-router-dom';
+import { DownloadSimple } from '@phosphor-icons/react';
+import { Button } from '@/components/ui/button';
+import { createPerformanceReport, downloadReport, type ReportFormat } from '@/lib/performance-report';
+import { getPageFromPath } from '@/lib/routes';
+import { useDeviceClass } from '@/hooks/use-device-class';
+
+const FORMATS: { format: ReportFormat; label: string }[] = [
+  { format: 'json', label: 'JSON' },
+  { format: 'markdown', label: 'Markdown' },
+  { format: 'html', label: 'HTML' },
+];
+
+// Plain buttons rather than a menu: the budget monitor sits in the debug panel, above popovers
+export function ReportExportButtons() {
+  const location = useLocation();
+  const { device } = useDeviceClass();
+
+  const handleExport = (format: ReportFormat) => {
+    const report = createPerformanceReport({ route: getPageFromPath(location.pathname), device });
+    downloadReport(report, format);
+  };
+
+  return (
+    <div className="flex items-center gap-1" data-cy="export-report">
+      <DownloadSimple size={16} className="text-muted-foreground mr-1" />
+      <span className="text-sm text-muted-foreground mr-1">Report</span>
+      {FORMATS.map(({ format, label }) => (
+        <Button key={format} variant="outline" size="sm" onClick={() => handleExport(format)} data-cy={`export-report-${format}`}>
+          {label}
+        </Button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowsClockwise } from '@phosphor-icons/react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { formatMs, getFileName } from '@/lib/format';
+import { RESOURCE_CATEGORIES, type ResourceCategory } from '@/lib/resource-classification';
+import { getWaterfallEntries, RESOURCE_PHASES, type ResourcePhase, type WaterfallEntry } from '@/lib/resource-waterfall';
+
+type PartyFilter = 'all' | 'first' | 'third';
+
+// Same colours as the Chrome DevTools network waterfall
+const PHASE_STYLES: Record<ResourcePhase, { label: string; className: string }> = {
+  redirect: { label: 'Redirect', className: 'bg-gray-400' },
+  dns: { label: 'DNS', className: 'bg-teal-500' },
+  connect: { label: 'Connect', className: 'bg-orange-400' },
+  tls: { label: 'TLS', className: 'bg-purple-500' },
+  request: { label: 'Request (waiting)', className: 'bg-green-500' },
+  response: { label: 'Response', className: 'bg-blue-500' },
+};
+
+function getTooltip(entry: WaterfallEntry): string {
+  const phases = entry.phases.length > 0
+    ? entry.phases.map(({ phase, start, end }) => `${PHASE_STYLES[phase].label}: ${formatMs(end - start)}`)
+    : ['No phase timing (cross-origin without Timing-Allow-Origin)'];
+  return [
+    entry.name,
+    `Start ${formatMs(entry.startTime)} · total ${formatMs(entry.duration)}`,
+    ...phases,
+    entry.protocol && `Protocol: ${entry.protocol}`,
+  ].filter(Boolean).join('\n');
+}
+
+export function ResourceWaterfall() {
+  const [entries, setEntries] = useState<WaterfallEntry[]>([]);
+  const [category, setCategory] = useState<ResourceCategory | 'all'>('all');
+  const [party, setParty] = useState<PartyFilter>('all');
+
+  useEffect(() => {
+    setEntries(getWaterfallEntries());
+  }, []);
+
+  const visibleEntries = entries.filter(entry =>
+    (category === 'all' || entry.category === category) &&
+    (party === 'all' || entry.thirdParty === (party === 'third'))
+  );
+  // Every row shares one time axis, from navigation start to the last response
+  const scale = Math.max(1, ...visibleEntries.map(entry => entry.endTime));
+  const toPercent = (time: number) => `${(time / scale) * 100}%`;
+
+  const transferred = visibleEntries.reduce((total, entry) => total + entry.transferSize, 0);
+  const blockingCount = visibleEntries.filter(entry => entry.renderBlocking).length;
+  const cachedCount = visibleEntries.filter(entry => entry.cached).length;
+  const thirdPartyCount = visibleEntries.filter(entry => entry.thirdParty).length;
+
+  return (
+    <Card data-cy="resource-waterfall">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>Resource Waterfall</CardTitle>
+            <CardDescription>
+              {visibleEntries.length} resource{visibleEntries.length !== 1 ? 's' : ''} · {(transferred / 1024).toFixed(1)} KB transferred
+              {' '}· {blockingCount} render-blocking · {cachedCount} from cache · {thirdPartyCount} third-party
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setEntries(getWaterfallEntries())}>
+            <ArrowsClockwise size={14} className="mr-1" />
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-4">
+          <Select value={category} onValueChange={value => setCategory(value as ResourceCategory | 'all')}>
+            <SelectTrigger className="w-40 h-8" data-cy="waterfall-type-filter">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All types</SelectItem>
+              {RESOURCE_CATEGORIES.map(value => (
+                <SelectItem key={value} value={value} className="capitalize">{value}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={party} onValueChange={value => setParty(value as PartyFilter)}>
+            <SelectTrigger className="w-40 h-8" data-cy="waterfall-party-filter">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All origins</SelectItem>
+              <SelectItem value="first">First-party</SelectItem>
+              <SelectItem value="third">Third-party</SelectItem>
+            </SelectContent>
+          </Select>
+          <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+            {RESOURCE_PHASES.map(phase => (
+              <span key={phase} className="flex items-center gap-1">
+                <span className={cn('inline-block w-3 h-2 rounded-sm', PHASE_STYLES[phase].className)} />
+                {PHASE_STYLES[phase].label}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        {visibleEntries.length > 0 ? (
+          <div className="max-h-[480px] overflow-auto space-y-1">
+            {visibleEntries.map((entry, index) => (
+              <div key={`${entry.name}-${entry.startTime}-${index}`} className="flex items-center gap-3 text-xs" title={getTooltip(entry)}>
+                <div className="w-64 shrink-0 flex items-center gap-1 min-w-0">
+                  <span className="truncate font-mono">{getFileName(entry.name)}</span>
+                  {entry.renderBlocking && (
+                    <Badge variant="outline" className="text-[10px] px-1 py-0 border-red-200 bg-red-50 text-red-700">blocking</Badge>
+                  )}
+                  {entry.priority && entry.priority !== 'auto' && (
+                    <Badge variant="outline" className="text-[10px] px-1 py-0">{entry.priority}</Badge>
+                  )}
+                  {entry.cached && (
+                    <Badge variant="outline" className="text-[10px] px-1 py-0 border-green-200 bg-green-50 text-green-700">cache</Badge>
+                  )}
+                  {entry.thirdParty && (
+                    <Badge variant="outline" className="text-[10px] px-1 py-0 border-yellow-200 bg-yellow-50 text-yellow-700">3p</Badge>
+                  )}
+                </div>
+                <div className="relative flex-1 h-3">
+                  {/* Queueing and anything the phases don't cover */}
+                  <div
+                    className="absolute inset-y-0 bg-muted-foreground/20 rounded-sm"
+                    style={{ left: toPercent(entry.startTime), width: toPercent(entry.endTime - entry.startTime) }}
+                  />
+                  {entry.phases.map(({ phase, start, end }) => (
+                    <div
+                      key={phase}
+                      className={cn('absolute inset-y-0', PHASE_STYLES[phase].className)}
+                      style={{ left: toPercent(start), width: toPercent(end - start) }}
+                    />
+                  ))}
+                </div>
+                <div className="w-14 shrink-0 text-right font-mono">{formatMs(entry.duration)}</div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-sm text-muted-foreground text-center py-8">
+            No resources match these filters
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,9 +1,17 @@
 import React from 'react';
-import { getFlags, getActiveFlags } from '@/lib/performance-flags';
+import { getActiveFlags, getChangedParameters, formatFlagValue } from '@/lib/performance-flags';
+import { flagAppliesToPage, getFlagDefinition, validateFlags } from '@/lib/flag-registry';
+import { useFlags } from '@/hooks/use-flags';
 
-export function StatusBar() {
-  const flags = getFlags();
-  const activeFlags = getActiveFlags();
+interface StatusBarProps {
+  currentPage: string;
+}
+
+export function StatusBar({ currentPage }: StatusBarProps) {
+  const flags = useFlags();
+  const activeFlags = getActiveFlags(flags);
+  const changedParameters = getChangedParameters(flags);
+  const warnings = validateFlags(flags);
 
   // Only show in development or when debug=1
   const urlParams = new URLSearchParams(window.location.search);
@@ -18,13 +26,31 @@ export function StatusBar() {
         'None'
       ) : (
         activeFlags.map((flag, index) => (
-          <span key={flag}>
-            {flag}
+          // Flags that do nothing on this page are dimmed
+          <span
+            key={flag}
+            className={flagAppliesToPage(flag, currentPage) ? '' : 'opacity-50'}
+            title={getFlagDefinition(flag).metrics.join(', ')}
+          >
+            {getFlagDefinition(flag).label}
             {index < activeFlags.length - 1 ? ', ' : ''}
           </span>
         ))
       )}{' '}
+      {changedParameters.length > 0 && (
+        <span className="ml-4">
+          <span className="font-semibold">Params:</span>{' '}
+          {changedParameters
+            .map(key => `${getFlagDefinition(key).label}=${formatFlagValue(key, flags[key])}`)
+            .join(', ')}
+        </span>
+      )}
       <span className="ml-4">Total: {activeFlags.length}</span>
+      {warnings.length > 0 && (
+        <span className="ml-4 text-yellow-400" title={warnings.map(w => w.message).join('\n')}>
+          ⚠ {warnings.length} warning{warnings.length !== 1 ? 's' : ''}
+        </span>
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,133 @@
+import React, { useEffect, useState } from 'react';
+import { Trash, Timer, MapPin } from '@phosphor-icons/react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { getUserTimingRecorder, type UserTimingSummary } from '@/lib/user-timing';
+import { formatMs } from '@/lib/format';
+
+// Marks drawn on the timeline and listed under it
+const TIMELINE_MARKS = 30;
+const LISTED_MARKS = 10;
+
+export function UserTimingPanel() {
+  const [summary, setSummary] = useState<UserTimingSummary>(() => getUserTimingRecorder().getSummary());
+
+  useEffect(() => {
+    const recorder = getUserTimingRecorder();
+    setSummary(recorder.getSummary());
+    return recorder.subscribe(setSummary);
+  }, []);
+
+  const handleClear = () => {
+    getUserTimingRecorder().clear();
+  };
+
+  const { measures } = summary;
+  const marks = summary.marks.slice(-TIMELINE_MARKS);
+  const timelineStart = marks[0]?.startTime ?? 0;
+  const timelineSpan = Math.max(1, (marks[marks.length - 1]?.startTime ?? 0) - timelineStart);
+
+  return (
+    <div className="space-y-6" data-cy="user-timing">
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Timer size={20} />
+                Measures
+              </CardTitle>
+              <CardDescription>
+                performance.measure() calls grouped by name, most recent first
+              </CardDescription>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleClear}
+              disabled={measures.length === 0 && summary.marks.length === 0}
+              data-cy="clear-user-timing"
+            >
+              <Trash size={14} className="mr-1" />
+              Clear
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {measures.length > 0 ? (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-muted-foreground border-b">
+                  <th className="p-2 text-left font-medium">Name</th>
+                  <th className="p-2 text-right font-medium">Count</th>
+                  <th className="p-2 text-right font-medium">Min</th>
+                  <th className="p-2 text-right font-medium">Median</th>
+                  <th className="p-2 text-right font-medium">Max</th>
+                  <th className="p-2 text-right font-medium">Last</th>
+                </tr>
+              </thead>
+              <tbody>
+                {measures.map(measure => (
+                  <tr key={measure.name} className="border-b last:border-0">
+                    <td className="p-2 font-mono text-xs">{measure.name}</td>
+                    <td className="p-2 text-right font-mono">{measure.count}</td>
+                    <td className="p-2 text-right font-mono">{formatMs(measure.min)}</td>
+                    <td className="p-2 text-right font-mono">{formatMs(measure.median)}</td>
+                    <td className="p-2 text-right font-mono">{formatMs(measure.max)}</td>
+                    <td className="p-2 text-right font-mono">{formatMs(measure.last)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <div className="text-sm text-muted-foreground text-center py-8">
+              No measures yet. Navigate between pages, search or add something to the cart
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <MapPin size={20} />
+            Recent Marks
+          </CardTitle>
+          <CardDescription>
+            The last {TIMELINE_MARKS} performance.mark() calls, relative to the first one shown
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {marks.length > 0 ? (
+            <>
+              <div className="relative h-8 rounded bg-muted" data-cy="marks-timeline">
+                {marks.map((mark, index) => (
+                  <div
+                    key={`${mark.name}-${mark.startTime}-${index}`}
+                    className="absolute top-1 bottom-1 w-0.5 bg-primary"
+                    style={{ left: `${((mark.startTime - timelineStart) / timelineSpan) * 100}%` }}
+                    title={`${mark.name} · ${formatMs(mark.startTime)}`}
+                  />
+                ))}
+              </div>
+              <div className="flex justify-between text-xs text-muted-foreground font-mono">
+                <span>{formatMs(timelineStart)}</span>
+                <span>{formatMs(timelineStart + timelineSpan)}</span>
+              </div>
+              <div className="space-y-1">
+                {[...marks].reverse().slice(0, LISTED_MARKS).map((mark, index) => (
+                  <div key={`${mark.name}-${mark.startTime}-${index}`} className="flex justify-between text-sm">
+                    <span className="font-mono text-xs">{mark.name}</span>
+                    <span className="font-mono text-xs text-muted-foreground">{formatMs(mark.startTime)}</span>
+                  </div>
+                ))}
+              </div>
+            </>
+          ) : (
+            <div className="text-sm text-muted-foreground text-center py-8">No marks yet</div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
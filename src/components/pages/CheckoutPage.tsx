@@ -1,15 +1,15 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
 import { Trash, ShoppingCart } from '@phosphor-icons/react';
-import { getFlags } from '@/lib/performance-flags';
 import { addPerformanceMark, measurePerformance } from '@/lib/performance-utils';
 import { CartItem } from '@/lib/types';
 import { toast } from 'sonner';
 import { useCart } from '@/hooks/use-cart';
+import { useFlags } from '@/hooks/use-flags';
 
 interface CheckoutPageProps {
   onNavigate: (page: string) => void;
@@ -30,8 +30,7 @@ export function CheckoutPage({ onNavigate }: CheckoutPageProps) {
     cvv: ''
   });
   
-  // Memoize flags to prevent infinite re-renders
-  const flags = useMemo(() => getFlags(), []);
+  const flags = useFlags();
 
   useEffect(() => {
     addPerformanceMark('checkout-page-load');
@@ -1,7 +1,7 @@
-import React, { useEffect, useState, useMemo } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { HeroSection } from '@/components/HeroSection';
-import { getFlags } from '@/lib/performance-flags';
+import { useFlags } from '@/hooks/use-flags';
 import { addPerformanceMark, measurePerformance, addHeroPreload, removeHeroPreload } from '@/lib/performance-utils';
 
 import heroJpg from '@/assets/images/hero.jpg';
@@ -14,32 +14,35 @@ interface HomePageProps {
 export function HomePage({ onNavigate }: HomePageProps) {
   const [showLateBanner, setShowLateBanner] = useState(false);
   
-  // Memoize flags to prevent infinite re-renders
-  const flags = useMemo(() => getFlags(), []);
+  const flags = useFlags();
 
   useEffect(() => {
     addPerformanceMark('home-page-start');
+    addPerformanceMark('home-page-end');
+    measurePerformance('home-page-load', 'home-page-start', 'home-page-end');
+  }, []);
 
-    // Handle hero preload - use poster image for video
-    const heroSrc = heroJpg;
-    
+  // Handle hero preload - use poster image for video
+  useEffect(() => {
     if (flags.heroPreload) {
-      addHeroPreload(heroSrc);
+      addHeroPreload(heroJpg);
     } else {
-      removeHeroPreload(heroSrc);
+      removeHeroPreload(heroJpg);
     }
+  }, [flags.heroPreload]);
 
-    // Handle late banner for CLS demonstration
-    if (flags.lateBanner) {
-      const timer = setTimeout(() => {
-        setShowLateBanner(true);
-      }, 2000);
-      return () => clearTimeout(timer);
+  // Handle late banner for CLS demonstration
+  useEffect(() => {
+    if (!flags.lateBanner) {
+      setShowLateBanner(false);
+      return;
     }
 
-    addPerformanceMark('home-page-end');
-    measurePerformance('home-page-load', 'home-page-start', 'home-page-end');
-  }, [flags]);
+    const timer = setTimeout(() => {
+      setShowLateBanner(true);
+    }, flags.lateBannerDelay);
+    return () => clearTimeout(timer);
+  }, [flags.lateBanner, flags.lateBannerDelay]);
 
   const handleHeroMediaLoad = () => {
     addPerformanceMark('hero-image-loaded');
@@ -0,0 +1,35 @@
+import React, { useEffect } from 'react';
+import { useLocation } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { addPerformanceMark } from '@/lib/performance-utils';
+
+interface NotFoundPageProps {
+  onNavigate: (page: string) => void;
+}
+
+export function NotFoundPage({ onNavigate }: NotFoundPageProps) {
+  const location = useLocation();
+
+  useEffect(() => {
+    addPerformanceMark('not-found-page-load');
+  }, []);
+
+  return (
+    <div className="min-h-screen p-4 flex items-center justify-center">
+      <div className="text-center" data-cy="not-found">
+        <h1 className="text-3xl font-bold mb-4">Page not found</h1>
+        <p className="text-muted-foreground mb-6">
+          Nothing lives at <code className="font-mono">{location.pathname}</code>.
+        </p>
+        <div className="flex justify-center gap-2">
+          <Button onClick={() => onNavigate('home')}>
+            Go Home
+          </Button>
+          <Button variant="outline" onClick={() => onNavigate('products')}>
+            Browse Products
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
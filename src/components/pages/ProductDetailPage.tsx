@@ -1,21 +1,25 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect } from 'react';
+import { Link, useLocation } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { getFlags } from '@/lib/performance-flags';
 import { 
   addPerformanceMark, 
   measurePerformance, 
   block, 
-  WorkerManager,
+  getWorkerPool,
+  isAbortError,
   addPassiveListeners,
   addNonPassiveListeners 
 } from '@/lib/performance-utils';
 import { Product, CartItem } from '@/lib/types';
-import { getProductById, getProductDetailDescription } from '@/lib/products';
+import { getProductById, getProductDetailDescription, formatProduct } from '@/lib/products';
+import type { FormattedProduct } from '@/lib/worker-protocol';
 import { getLocalProductImage } from '@/lib/product-images';
 import { CartAddedModal } from '@/components/CartAddedModal';
 import { useCart } from '@/hooks/use-cart';
+import { useFlags } from '@/hooks/use-flags';
+import { ROUTES, withPersistentParams } from '@/lib/routes';
 
 interface ProductDetailPageProps {
   productId: number;
@@ -25,13 +29,13 @@ interface ProductDetailPageProps {
 export function ProductDetailPage({ productId, onNavigate }: ProductDetailPageProps) {
   const [cart, setCart] = useCart();
   const [isLoading, setIsLoading] = useState(false);
-  const [formattedData, setFormattedData] = useState<any>(null);
+  const [formattedData, setFormattedData] = useState<FormattedProduct | null>(null);
   const [product, setProduct] = useState<Product | null>(null);
   const [showCartModal, setShowCartModal] = useState(false);
   const [productImage, setProductImage] = useState<string>('');
+  const location = useLocation();
   
-  // Memoize flags to prevent infinite re-renders
-  const flags = useMemo(() => getFlags(), []);
+  const flags = useFlags();
 
   useEffect(() => {
     addPerformanceMark('product-detail-start');
@@ -55,33 +59,18 @@ export function ProductDetailPage({ productId, onNavigate }: ProductDetailPagePr
       setProductImage(imageUrl);
     });
     
-    const handleTouchMove = (e: TouchEvent) => {
-      if (!flags.listenersPassive) {
-        e.preventDefault();
-      }
-    };
-
-    const handleWheel = (e: WheelEvent) => {
-      if (!flags.listenersPassive) {
-        e.preventDefault();
-      }
-    };
-
-    const element = document.body;
-    
-    if (flags.listenersPassive) {
-      addPassiveListeners(element, ['touchmove', 'wheel'], handleTouchMove as EventListener);
-    } else {
-      addNonPassiveListeners(element, ['touchmove', 'wheel'], handleTouchMove as EventListener);
-    }
+    const formatAbort = new AbortController();
 
     if (flags.useWorker) {
-      const workerManager = new WorkerManager();
-      workerManager.execute('format-product', detailedProduct)
+      getWorkerPool().execute('format-product', detailedProduct, {
+        priority: 'user-visible',
+        signal: formatAbort.signal
+      })
         .then(result => {
-          setFormattedData(result.data);
+          setFormattedData(result);
         })
         .catch(error => {
+          if (isAbortError(error)) return;
           console.warn('Worker failed, falling back to main thread:', error);
           formatProductOnMainThread(detailedProduct);
         });
@@ -93,21 +82,10 @@ export function ProductDetailPage({ productId, onNavigate }: ProductDetailPagePr
       addPerformanceMark('format-start');
       
       if (flags.simulateLongTask) {
-        block(120);
+        block(flags.longTaskDuration);
       }
       
-      const formatted = {
-        ...prod,
-        formattedPrice: new Intl.NumberFormat('en-US', {
-          style: 'currency',
-          currency: 'USD'
-        }).format(prod.price),
-        formattedDescription: prod.description,
-        metadata: {
-          processed: new Date().toISOString(),
-          worker: false
-        }
-      };
+      const formatted = formatProduct(prod, false);
       
       setFormattedData(formatted);
       addPerformanceMark('format-end');
@@ -118,10 +96,31 @@ export function ProductDetailPage({ productId, onNavigate }: ProductDetailPagePr
     measurePerformance('product-detail-load', 'product-detail-start', 'product-detail-end');
 
     return () => {
-      element.removeEventListener('touchmove', handleTouchMove as EventListener);
-      element.removeEventListener('wheel', handleWheel as EventListener);
+      formatAbort.abort();
+    };
+  }, [productId]); // Formatting runs once per product; flag changes apply on the next one
+
+  // Re-register scroll listeners whenever the passive flag changes
+  useEffect(() => {
+    const handleScroll = (e: Event) => {
+      if (!flags.listenersPassive) {
+        e.preventDefault();
+      }
+    };
+
+    const element = document.body;
+    const events = ['touchmove', 'wheel'];
+
+    if (flags.listenersPassive) {
+      addPassiveListeners(element, events, handleScroll);
+    } else {
+      addNonPassiveListeners(element, events, handleScroll);
+    }
+
+    return () => {
+      events.forEach(event => element.removeEventListener(event, handleScroll));
     };
-  }, [productId]); // Only depend on productId, not flags
+  }, [flags.listenersPassive]);
 
   const handleAddToCart = async () => {
     if (!product) return;
@@ -131,7 +130,7 @@ export function ProductDetailPage({ productId, onNavigate }: ProductDetailPagePr
 
     try {
       if (flags.simulateLongTask) {
-        block(120);
+        block(flags.longTaskDuration);
       }
 
       setCart((currentCart) => {
@@ -174,10 +173,12 @@ export function ProductDetailPage({ productId, onNavigate }: ProductDetailPagePr
       <div className="max-w-6xl mx-auto">
         <Button 
           variant="outline" 
-          onClick={() => onNavigate('products')}
           className="mb-6"
+          asChild
         >
-          ← Back to Products
+          <Link to={withPersistentParams(ROUTES.products, location.search)}>
+            ← Back to Products
+          </Link>
         </Button>
 
         <div className="grid lg:grid-cols-2 gap-8">
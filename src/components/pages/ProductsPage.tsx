@@ -1,15 +1,17 @@
-import React, { useEffect, useState, useMemo } from 'react';
+import React, { useEffect, useState } from 'react';
+import { Link, useLocation } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { getFlags } from '@/lib/performance-flags';
 import { addPerformanceMark, measurePerformance } from '@/lib/performance-utils';
 import { Product, CartItem } from '@/lib/types';
 import { getAllProducts } from '@/lib/products';
 import { getLocalProductImage } from '@/lib/product-images';
+import { getProductPath, withPersistentParams } from '@/lib/routes';
 import { CartAddedModal } from '@/components/CartAddedModal';
 import { ShoppingCart } from '@phosphor-icons/react';
 import { useCart } from '@/hooks/use-cart';
+import { useFlags } from '@/hooks/use-flags';
 
 interface ProductsPageProps {
   onProductClick: (productId: number) => void;
@@ -23,9 +25,9 @@ export function ProductsPage({ onProductClick, onNavigate }: ProductsPageProps)
   const [showCartModal, setShowCartModal] = useState(false);
   const [addedProduct, setAddedProduct] = useState<Product | null>(null);
   const [productImages, setProductImages] = useState<Map<number, string>>(new Map());
+  const location = useLocation();
   
-  // Memoize flags to prevent infinite re-renders
-  const flags = useMemo(() => getFlags(), []);
+  const flags = useFlags();
 
   useEffect(() => {
     addPerformanceMark('products-page-start');
@@ -210,16 +212,20 @@ export function ProductsPage({ onProductClick, onNavigate }: ProductsPageProps)
                     >
                       <ShoppingCart size={16} />
                     </Button>
-                    <Button 
-                      size="sm" 
-                      disabled={!product.inStock}
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        onProductClick(product.id);
-                      }}
-                    >
-                      View
-                    </Button>
+                    {product.inStock ? (
+                      <Button size="sm" asChild>
+                        <Link
+                          to={withPersistentParams(getProductPath(product.id), location.search)}
+                          onClick={(e) => e.stopPropagation()}
+                        >
+                          View
+                        </Link>
+                      </Button>
+                    ) : (
+                      <Button size="sm" disabled>
+                        View
+                      </Button>
+                    )}
                   </div>
                 </div>
               </CardContent>
@@ -1,14 +1,15 @@
-import React, { useState, useEffect, useMemo, useRef } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { getFlags } from '@/lib/performance-flags';
-import { addPerformanceMark, measurePerformance, microYield, WorkerManager } from '@/lib/performance-utils';
+import { addPerformanceMark, measurePerformance, microYield, getWorkerPool, isAbortError } from '@/lib/performance-utils';
 import { Product, CartItem } from '@/lib/types';
-import { getAllProducts, searchProducts as searchProductsFromLib } from '@/lib/products';
+import { getAllProducts, getSearchTerms, filterProducts } from '@/lib/products';
 import { getLocalProductImage } from '@/lib/product-images';
 import { CartAddedModal } from '@/components/CartAddedModal';
 import { useCart } from '@/hooks/use-cart';
+import { useFlags } from '@/hooks/use-flags';
 import { ShoppingCart } from '@phosphor-icons/react';
 
 interface SearchPageProps {
@@ -18,7 +19,9 @@ interface SearchPageProps {
 
 export function SearchPage({ onProductClick, onNavigate }: SearchPageProps) {
   const [cart, setCart] = useCart();
-  const [query, setQuery] = useState('');
+  const [searchParams, setSearchParams] = useSearchParams();
+  const urlQuery = searchParams.get('q') ?? '';
+  const [query, setQuery] = useState(urlQuery);
   const [results, setResults] = useState<Product[]>([]);
   const [isSearching, setIsSearching] = useState(false);
   const [debounceTimer, setDebounceTimer] = useState<ReturnType<typeof setTimeout> | null>(null);
@@ -27,39 +30,21 @@ export function SearchPage({ onProductClick, onNavigate }: SearchPageProps) {
   const [showCartModal, setShowCartModal] = useState(false);
   const [addedProduct, setAddedProduct] = useState<Product | null>(null);
   const [productImages, setProductImages] = useState<Map<number, string>>(new Map());
-  const [flagsVersion, setFlagsVersion] = useState(0); // Force re-renders when flags change
   
-  // Web Worker for search operations
-  const workerRef = useRef<WorkerManager | null>(null);
-  
-  // Get current flags - will update when flagsVersion changes
-  const flags = useMemo(() => getFlags(), [flagsVersion]);
-
-  // Listen for flag changes
-  useEffect(() => {
-    const handleStorageChange = (e: StorageEvent) => {
-      if (e.key === 'hypercart-flags') {
-        setFlagsVersion(prev => prev + 1); // Force flags re-evaluation
-      }
-    };
+  // In-flight worker search, aborted when a newer query supersedes it
+  const searchAbortRef = useRef<AbortController | null>(null);
 
-    window.addEventListener('storage', handleStorageChange);
-    return () => window.removeEventListener('storage', handleStorageChange);
-  }, []);
+  // Last query written to or read from the URL, so typing doesn't re-trigger the URL sync
+  const syncedQueryRef = useRef<string | null>(null);
+  
+  const flags = useFlags();
 
-  // Initialize Web Worker
+  // Drop any in-flight search when leaving the page; the shared pool shuts idle workers down
   useEffect(() => {
-    if (flags.useWorker) {
-      workerRef.current = new WorkerManager();
-    }
-    
     return () => {
-      if (workerRef.current) {
-        workerRef.current.terminate();
-        workerRef.current = null;
-      }
+      searchAbortRef.current?.abort();
     };
-  }, [flags.useWorker]);
+  }, []);
 
   useEffect(() => {
     const loadProductsWithImages = async () => {
@@ -80,6 +65,10 @@ export function SearchPage({ onProductClick, onNavigate }: SearchPageProps) {
 
   // Enhanced search function with Web Worker support
   const performSearch = async (searchQuery: string) => {
+    searchAbortRef.current?.abort();
+    const controller = new AbortController();
+    searchAbortRef.current = controller;
+
     addPerformanceMark('search-start');
     setIsSearching(true);
 
@@ -88,11 +77,12 @@ export function SearchPage({ onProductClick, onNavigate }: SearchPageProps) {
       useWorker: flags.useWorker,
       microYield: flags.microYield,
       debounce: flags.debounce,
+      debounceDelay: flags.debounceDelay,
       query: searchQuery
     });
 
     try {
-      const searchTerms = searchQuery.toLowerCase().split(' ').filter(term => term.length > 0);
+      const searchTerms = getSearchTerms(searchQuery);
       
       if (searchTerms.length === 0) {
         setResults([]);
@@ -101,16 +91,16 @@ export function SearchPage({ onProductClick, onNavigate }: SearchPageProps) {
 
       // BEFORE ❌: All processing on main thread (blocks UI)
       // AFTER ✅: Use Web Worker for heavy processing when flag is enabled
-      if (flags.useWorker && workerRef.current) {
+      if (flags.useWorker) {
         addPerformanceMark('worker-search-start');
         console.log('🟢 Using Web Worker for search processing');
         
         try {
           // Send search data to worker for background processing
-          const workerResults = await workerRef.current.execute('search', {
+          const workerResults = await getWorkerPool().execute('search', {
             query: searchQuery,
             products: searchProducts
-          });
+          }, { priority: 'user-blocking', signal: controller.signal });
           
           addPerformanceMark('worker-search-end');
           measurePerformance('worker-search', 'worker-search-start', 'worker-search-end');
@@ -121,25 +111,30 @@ export function SearchPage({ onProductClick, onNavigate }: SearchPageProps) {
           setResults(workerResults.slice(0, 20));
           
         } catch (error) {
+          // Superseded by a newer query, which owns the results now
+          if (isAbortError(error)) return;
           console.warn('❌ Worker search failed, falling back to main thread:', error);
           // Fallback to main thread processing
-          await performMainThreadSearch(searchTerms);
+          await performMainThreadSearch(searchTerms, controller.signal);
         }
       } else {
         console.log('🟡 Using main thread for search processing');
         // Main thread processing (potentially blocking)
-        await performMainThreadSearch(searchTerms);
+        await performMainThreadSearch(searchTerms, controller.signal);
       }
 
     } finally {
-      setIsSearching(false);
+      if (searchAbortRef.current === controller) {
+        searchAbortRef.current = null;
+        setIsSearching(false);
+      }
       addPerformanceMark('search-end');
       measurePerformance('search-operation', 'search-start', 'search-end');
     }
   };
 
   // Main thread search function (can block UI)
-  const performMainThreadSearch = async (searchTerms: string[]) => {
+  const performMainThreadSearch = async (searchTerms: string[], signal: AbortSignal) => {
     console.log('🔄 Starting main thread search with microYield:', flags.microYield);
     
     // Simulate heavy computation that blocks main thread
@@ -155,42 +150,56 @@ export function SearchPage({ onProductClick, onNavigate }: SearchPageProps) {
     if (flags.microYield) {
       console.log('🔄 Using micro-yield processing');
       // Process in chunks with yields to prevent blocking
-      const chunkSize = 50;
+      const chunkSize = flags.microYieldChunkSize;
       for (let i = 0; i < searchProducts.length; i += chunkSize) {
         const chunk = searchProducts.slice(i, i + chunkSize);
-        const chunkResults = chunk.filter(product => 
-          searchTerms.every(term => 
-            product.name.toLowerCase().includes(term) ||
-            product.description.toLowerCase().includes(term) ||
-            product.category.toLowerCase().includes(term)
-          )
-        );
+        const chunkResults = filterProducts(chunk, searchTerms);
         filteredResults = [...filteredResults, ...chunkResults];
         
         // Yield control back to browser
-        await microYield();
+        await microYield(flags.yieldStrategy);
+        if (signal.aborted) return;
       }
     } else {
       console.log('⚠️ Processing all at once (blocking)');
       // Process all at once (blocking main thread)
-      filteredResults = searchProducts.filter(product => 
-        searchTerms.every(term => 
-          product.name.toLowerCase().includes(term) ||
-          product.description.toLowerCase().includes(term) ||
-          product.category.toLowerCase().includes(term)
-        )
-      );
+      filteredResults = filterProducts(searchProducts, searchTerms);
     }
 
     console.log(`📊 Main thread search completed, found ${filteredResults.length} results`);
     setResults(filteredResults.slice(0, 20));
   };
 
+  // Run the search from ?q= on deep links and back/forward navigation
+  useEffect(() => {
+    if (loading || urlQuery === syncedQueryRef.current) return;
+
+    syncedQueryRef.current = urlQuery;
+    setQuery(urlQuery);
+    if (urlQuery.trim()) {
+      performSearch(urlQuery);
+    } else {
+      setResults([]);
+    }
+  }, [urlQuery, loading]);
+
   // Handle input change with debouncing
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
     setQuery(value);
 
+    // Keep the URL shareable without adding a history entry per keystroke
+    syncedQueryRef.current = value;
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      if (value) {
+        next.set('q', value);
+      } else {
+        next.delete('q');
+      }
+      return next;
+    }, { replace: true });
+
     // Clear existing timer
     if (debounceTimer) {
       clearTimeout(debounceTimer);
@@ -202,7 +211,7 @@ export function SearchPage({ onProductClick, onNavigate }: SearchPageProps) {
       const timer = setTimeout(() => {
         console.log('⏰ Executing debounced search for:', value);
         performSearch(value);
-      }, 300);
+      }, flags.debounceDelay);
       setDebounceTimer(timer);
     } else {
       console.log('⚡ Immediate search for:', value);
@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { CartItem } from '@/lib/types';
+import { createCrossTabChannel } from '@/lib/cross-tab-sync';
 
 const CART_KEY = 'hypercart-cart';
 
@@ -15,6 +16,15 @@ try {
   globalCart = [];
 }
 
+// Keeps the cart identical across open tabs
+const cartChannel = createCrossTabChannel<CartItem[]>('cart', CART_KEY);
+
+cartChannel.subscribe(remoteCart => {
+  // The other tab already saved it, so just adopt the new value
+  globalCart = Array.isArray(remoteCart) ? remoteCart : [];
+  notifyListeners();
+});
+
 function notifyListeners() {
   listeners.forEach(listener => listener([...globalCart]));
 }
@@ -29,6 +39,9 @@ function updateGlobalCart(newCart: CartItem[]) {
     console.warn('Failed to save cart to localStorage:', error);
   }
   
+  // Let other tabs know
+  cartChannel.publish(newCart);
+  
   // Notify all listeners
   notifyListeners();
 }
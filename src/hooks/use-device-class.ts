@@ -0,0 +1,22 @@
+import { useIsMobile } from './use-mobile';
+import { useDeviceCapabilities } from './use-device-capabilities';
+import type { DeviceClass } from '@/lib/budget-scopes';
+
+interface DeviceClassInfo {
+  device: DeviceClass;
+  // Why the device got this class, for display
+  reason: string;
+}
+
+export function useDeviceClass(): DeviceClassInfo {
+  const isMobile = useIsMobile();
+  const { hasCoarsePointer } = useDeviceCapabilities();
+
+  if (isMobile) {
+    return { device: 'mobile', reason: 'Viewport narrower than 768px' };
+  }
+  if (hasCoarsePointer) {
+    return { device: 'mobile', reason: 'Touch screen (coarse pointer)' };
+  }
+  return { device: 'desktop', reason: 'Wide viewport with a fine pointer' };
+}
@@ -0,0 +1,14 @@
+import { useState, useEffect } from 'react';
+import type { PerformanceFlags } from '@/lib/types';
+import { getFlags, subscribeToFlags } from '@/lib/performance-flags';
+
+// Current flags, re-rendering whenever they change (panel, scenario, shared link or another tab)
+export function useFlags(): PerformanceFlags {
+  const [flags, setFlagsState] = useState<PerformanceFlags>(getFlags);
+
+  useEffect(() => {
+    return subscribeToFlags(setFlagsState);
+  }, []);
+
+  return flags;
+}
@@ -0,0 +1,131 @@
+// budget.json import/export
+// The file follows Lighthouse's budget.json format, an array of budgets:
+// metrics Lighthouse knows go in timings, resourceSizes and resourceCounts under its
+// names; the rest (INP, TTFB, long tasks, ...) go in a "hypercart" block, keyed like
+// PerformanceBudget. Lighthouse rejects unknown properties, so remove that block before
+// passing the file to --budget-path.
+
+import { validateBudget, type BudgetValidationResult, type PerformanceBudget } from './performance-budgets';
+
+type BudgetKey = keyof PerformanceBudget;
+
+interface LighthouseTiming {
+  metric: string;
+  budget: number;
+}
+
+interface LighthouseResourceBudget {
+  resourceType: string;
+  budget: number;
+}
+
+export interface LighthouseBudget {
+  path?: string;
+  timings?: LighthouseTiming[];
+  resourceSizes?: LighthouseResourceBudget[];
+  resourceCounts?: LighthouseResourceBudget[];
+  hypercart?: Partial<PerformanceBudget>;
+}
+
+// Lighthouse timings are in ms (CLS unitless), sizes in KB: the same units as PerformanceBudget
+const TIMINGS: Partial<Record<BudgetKey, string>> = {
+  fcp: 'first-contentful-paint',
+  lcp: 'largest-contentful-paint',
+  cls: 'cumulative-layout-shift',
+  tbt: 'total-blocking-time',
+  tti: 'interactive',
+};
+
+const RESOURCE_SIZES: Partial<Record<BudgetKey, string>> = {
+  totalSize: 'total',
+  jsSize: 'script',
+  cssSize: 'stylesheet',
+  imageSize: 'image',
+};
+
+const RESOURCE_COUNTS: Partial<Record<BudgetKey, string>> = {
+  requests: 'total',
+  thirdPartyRequests: 'third-party',
+};
+
+const LIGHTHOUSE_KEYS = new Set<string>([
+  ...Object.keys(TIMINGS),
+  ...Object.keys(RESOURCE_SIZES),
+  ...Object.keys(RESOURCE_COUNTS),
+]);
+
+function toEntries<T>(
+  budget: PerformanceBudget,
+  names: Partial<Record<BudgetKey, string>>,
+  toEntry: (name: string, value: number) => T
+): T[] {
+  return (Object.entries(names) as [BudgetKey, string][]).map(([key, name]) => toEntry(name, budget[key]));
+}
+
+export function toBudgetFile(budget: PerformanceBudget): LighthouseBudget[] {
+  const extra = Object.fromEntries(
+    Object.entries(budget).filter(([key]) => !LIGHTHOUSE_KEYS.has(key))
+  ) as Partial<PerformanceBudget>;
+
+  return [
+    {
+      path: '/*',
+      timings: toEntries(budget, TIMINGS, (metric, value) => ({ metric, budget: value })),
+      resourceSizes: toEntries(budget, RESOURCE_SIZES, (resourceType, value) => ({ resourceType, budget: value })),
+      resourceCounts: toEntries(budget, RESOURCE_COUNTS, (resourceType, value) => ({ resourceType, budget: value })),
+      hypercart: extra,
+    },
+  ];
+}
+
+function readEntries(
+  entries: unknown,
+  names: Partial<Record<BudgetKey, string>>,
+  nameField: 'metric' | 'resourceType',
+  into: Record<string, unknown>,
+  errors: string[]
+): void {
+  if (entries === undefined) return;
+  if (!Array.isArray(entries)) {
+    errors.push(`Expected an array of { ${nameField}, budget }`);
+    return;
+  }
+
+  const keysByName = new Map(Object.entries(names).map(([key, name]) => [name, key]));
+  entries.forEach(entry => {
+    const name = entry?.[nameField];
+    const key = keysByName.get(name);
+    // Lighthouse metrics this app does not measure (speed-index, font, ...) are skipped
+    if (key) into[key] = entry.budget;
+  });
+}
+
+// Accepts files exported here and plain Lighthouse budgets; metrics the file leaves out
+// keep their value from base. Only the first budget (Lighthouse's "/*" path) is read.
+export function parseBudgetFile(text: string, base: PerformanceBudget): BudgetValidationResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { budget: null, errors: ['File is not valid JSON'] };
+  }
+
+  const [first] = Array.isArray(parsed) ? parsed : [parsed];
+  if (typeof first !== 'object' || first === null) {
+    return { budget: null, errors: ['Expected a budget.json array with at least one budget'] };
+  }
+
+  const file = first as Record<string, unknown>;
+  const values: Record<string, unknown> = {};
+  const errors: string[] = [];
+
+  readEntries(file.timings, TIMINGS, 'metric', values, errors);
+  readEntries(file.resourceSizes, RESOURCE_SIZES, 'resourceType', values, errors);
+  readEntries(file.resourceCounts, RESOURCE_COUNTS, 'resourceType', values, errors);
+  if (typeof file.hypercart === 'object' && file.hypercart !== null) {
+    Object.assign(values, file.hypercart);
+  }
+
+  if (errors.length > 0) return { budget: null, errors };
+  return validateBudget(values, base);
+}
@@ -0,0 +1,102 @@
+// Per-route and per-device budgets
+// The budget level (conservative, moderate, relaxed, custom) is the baseline; the current
+// route and device class then scale individual metrics. Scaling rather than replacing
+// keeps "Home allows a heavier first paint" true whichever level is selected.
+
+import type { Page } from './routes';
+import { BUDGET_METRICS, type PerformanceBudget } from './performance-budgets';
+
+export type DeviceClass = 'mobile' | 'desktop';
+
+export interface BudgetAdjustment {
+  reason: string;
+  // Multipliers: 1.5 allows 50% more, 0.5 halves the budget
+  scale: Partial<Record<keyof PerformanceBudget, number>>;
+}
+
+export interface AppliedAdjustment extends BudgetAdjustment {
+  scope: 'route' | 'device';
+  label: string;
+}
+
+export interface BudgetScope {
+  route: Page;
+  device: DeviceClass;
+}
+
+export interface ResolvedBudget {
+  budget: PerformanceBudget;
+  base: PerformanceBudget;
+  adjustments: AppliedAdjustment[];
+}
+
+export const ROUTE_BUDGETS: Partial<Record<Page, BudgetAdjustment>> = {
+  home: {
+    reason: 'Hero image and background video make this the heaviest first paint',
+    scale: { lcp: 1.2, totalSize: 1.5, imageSize: 1.5 },
+  },
+  products: {
+    reason: 'The product grid loads a thumbnail per product',
+    scale: { imageSize: 1.5, requests: 1.5 },
+  },
+  search: {
+    reason: 'Every keystroke is an interaction',
+    scale: { inp: 0.75 },
+  },
+  checkout: {
+    reason: 'A form: fields must not move and typing must feel instant',
+    scale: { cls: 0.5, layoutShifts: 0.5, inp: 0.75, imageSize: 0.5 },
+  },
+};
+
+export const DEVICE_BUDGETS: Partial<Record<DeviceClass, BudgetAdjustment>> = {
+  mobile: {
+    reason: 'Slower CPUs stretch main-thread work, and every byte costs more on mobile networks',
+    scale: { tbt: 1.5, tti: 1.5, mainThreadTime: 1.5, scriptTime: 1.5, totalSize: 0.75, jsSize: 0.75, imageSize: 0.75 },
+  },
+};
+
+const ROUTE_LABELS: Record<Page, string> = {
+  home: 'Home',
+  products: 'Products',
+  'product-detail': 'Product Detail',
+  search: 'Search',
+  checkout: 'Checkout',
+  'not-found': 'Not Found',
+};
+
+export function getRouteLabel(route: Page): string {
+  return ROUTE_LABELS[route];
+}
+
+function applyScale(budget: PerformanceBudget, scale: BudgetAdjustment['scale']): PerformanceBudget {
+  const scaled = { ...budget };
+  BUDGET_METRICS.forEach(({ key }) => {
+    const factor = scale[key];
+    if (factor === undefined) return;
+    // CLS is a small ratio; every other metric is a whole number of ms, KB or requests
+    const decimals = key === 'cls' ? 3 : 0;
+    scaled[key] = Number((budget[key] * factor).toFixed(decimals));
+  });
+  return scaled;
+}
+
+export function resolveBudget(base: PerformanceBudget, scope: BudgetScope): ResolvedBudget {
+  const adjustments: AppliedAdjustment[] = [];
+
+  const routeBudget = ROUTE_BUDGETS[scope.route];
+  if (routeBudget) {
+    adjustments.push({ ...routeBudget, scope: 'route', label: getRouteLabel(scope.route) });
+  }
+
+  const deviceBudget = DEVICE_BUDGETS[scope.device];
+  if (deviceBudget) {
+    adjustments.push({ ...deviceBudget, scope: 'device', label: scope.device === 'mobile' ? 'Mobile' : 'Desktop' });
+  }
+
+  return {
+    budget: adjustments.reduce((budget, adjustment) => applyScale(budget, adjustment.scale), base),
+    base,
+    adjustments,
+  };
+}
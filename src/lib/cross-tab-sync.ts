@@ -0,0 +1,83 @@
+// Cross-tab state synchronisation
+// Uses BroadcastChannel where available and falls back to the storage event,
+// which browsers fire in every other tab when localStorage changes
+
+export interface CrossTabChannel<T> {
+  publish(value: T): void;
+  subscribe(listener: (value: T) => void): () => void;
+  close(): void;
+}
+
+interface ChannelMessage<T> {
+  value: T;
+}
+
+export function createCrossTabChannel<T>(name: string, storageKey: string): CrossTabChannel<T> {
+  const listeners = new Set<(value: T) => void>();
+  const notify = (value: T) => listeners.forEach(listener => listener(value));
+
+  if (typeof window === 'undefined') {
+    return {
+      publish: () => {},
+      subscribe: () => () => {},
+      close: () => {},
+    };
+  }
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(`hypercart-${name}`);
+    channel.onmessage = (e: MessageEvent<ChannelMessage<T>>) => {
+      if (e.data && 'value' in e.data) {
+        notify(e.data.value);
+      }
+    };
+
+    return {
+      publish: (value) => {
+        try {
+          const message: ChannelMessage<T> = { value };
+          channel.postMessage(message);
+        } catch (error) {
+          console.warn(`Failed to broadcast ${name} update:`, error);
+        }
+      },
+      subscribe: (listener) => {
+        listeners.add(listener);
+        return () => {
+          listeners.delete(listener);
+        };
+      },
+      close: () => {
+        listeners.clear();
+        channel.close();
+      },
+    };
+  }
+
+  // Fallback: other tabs learn about the change from the localStorage write itself
+  const handleStorage = (e: StorageEvent) => {
+    // Synthetic same-tab events have no storageArea; only real cross-tab writes count
+    if (e.key !== storageKey || e.storageArea !== localStorage || e.newValue === null) return;
+
+    try {
+      notify(JSON.parse(e.newValue) as T);
+    } catch (error) {
+      console.warn(`Failed to parse ${name} update from another tab:`, error);
+    }
+  };
+  window.addEventListener('storage', handleStorage);
+
+  return {
+    publish: () => {},
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    close: () => {
+      listeners.clear();
+      window.removeEventListener('storage', handleStorage);
+    },
+  };
+}
@@ -0,0 +1,56 @@
+// On-page overlays for talks: which element is LCP, what shifted, which targets were slow
+// Settings are kept in localStorage like the flags, but they only change what is drawn
+// on top of the page, never how the page loads, so they are not performance flags.
+
+export interface OverlaySettings {
+  // Outline of the current LCP candidate with its time
+  lcp: boolean;
+  // Flashes the previous and current rect of every element that shifted
+  layoutShifts: boolean;
+  // Labels the targets of slow interactions with their latency
+  interactions: boolean;
+}
+
+const OVERLAYS_KEY = 'hypercart-overlays';
+
+export const DEFAULT_OVERLAY_SETTINGS: OverlaySettings = {
+  lcp: false,
+  layoutShifts: false,
+  interactions: false,
+};
+
+const listeners = new Set<(settings: OverlaySettings) => void>();
+
+export function getOverlaySettings(): OverlaySettings {
+  if (typeof window === 'undefined') return DEFAULT_OVERLAY_SETTINGS;
+
+  try {
+    const stored = localStorage.getItem(OVERLAYS_KEY);
+    if (stored) {
+      return { ...DEFAULT_OVERLAY_SETTINGS, ...JSON.parse(stored) };
+    }
+  } catch (error) {
+    console.warn('Failed to load overlay settings from localStorage:', error);
+  }
+
+  return DEFAULT_OVERLAY_SETTINGS;
+}
+
+export function setOverlaySetting(key: keyof OverlaySettings, enabled: boolean): void {
+  const settings = { ...getOverlaySettings(), [key]: enabled };
+
+  try {
+    localStorage.setItem(OVERLAYS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Failed to save overlay settings to localStorage:', error);
+  }
+
+  listeners.forEach(listener => listener(settings));
+}
+
+export function subscribeToOverlaySettings(listener: (settings: OverlaySettings) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
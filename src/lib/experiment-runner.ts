@@ -0,0 +1,194 @@
+// A/B experiments: load the same page N times with each of two flag sets and compare
+// The plan lives in sessionStorage so it survives the reloads. Loads alternate between
+// A and B (so a cache warming up or a busy machine affects both) after one warm-up load
+// that is not counted. Each load waits for its metrics to settle before moving on. The
+// variants' flags apply to this tab only, so other open tabs keep theirs throughout.
+
+import { DEFAULT_FLAGS, clearTabFlags, setFlags } from './performance-flags';
+import type { PerformanceFlags } from './types';
+import { BUDGET_METRICS, getPerformanceCollector, type PerformanceBudget } from './performance-budgets';
+import { waitForSettledMetrics } from './main-thread';
+import { withPersistentParams } from './routes';
+import { mannWhitneyU, median, percentile } from './stats';
+
+export type ExperimentVariant = 'a' | 'b';
+
+export interface ExperimentConfig {
+  a: { label: string; flags: PerformanceFlags };
+  b: { label: string; flags: PerformanceFlags };
+  runsPerVariant: number;
+}
+
+export interface ExperimentRun {
+  variant: ExperimentVariant;
+  metrics: Partial<PerformanceBudget>;
+}
+
+export interface ExperimentState {
+  config: ExperimentConfig;
+  // URL every load uses, including ?debug=1
+  path: string;
+  // 'warmup' first, then alternating a/b
+  schedule: Array<ExperimentVariant | 'warmup'>;
+  nextIndex: number;
+  runs: ExperimentRun[];
+  status: 'running' | 'done';
+}
+
+export type ExperimentVerdict = 'better' | 'worse' | 'no-difference' | 'not-enough-data';
+
+export interface VariantStats {
+  runs: number;
+  median: number;
+  p75: number;
+  // Interquartile range: the middle half of the runs
+  spread: number;
+}
+
+export interface MetricComparison {
+  metric: keyof PerformanceBudget;
+  name: string;
+  unit: string;
+  a: VariantStats;
+  b: VariantStats;
+  // B's median minus A's
+  difference: number;
+  pValue: number | null;
+  // How B compares with A
+  verdict: ExperimentVerdict;
+}
+
+const STORAGE_KEY = 'hypercart-experiment';
+// The normal approximation of the Mann-Whitney test overstates significance below 5 runs
+// per variant (3 vs 3 fully separated gives p ≈ 0.05; the exact p is 0.10)
+export const MIN_RUNS = 5;
+export const MAX_RUNS = 20;
+const SIGNIFICANCE_LEVEL = 0.05;
+
+export function getExperiment(): ExperimentState | null {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const stored = sessionStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) as ExperimentState : null;
+  } catch (error) {
+    console.warn('Failed to load experiment from sessionStorage:', error);
+    return null;
+  }
+}
+
+function saveExperiment(state: ExperimentState): void {
+  try {
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  } catch (error) {
+    console.warn('Failed to save experiment to sessionStorage:', error);
+  }
+}
+
+function loadVariant(state: ExperimentState): void {
+  const variant = state.schedule[state.nextIndex];
+  // The warm-up load uses A's flags
+  const flags = variant === 'b' ? state.config.b.flags : state.config.a.flags;
+  setFlags({ ...DEFAULT_FLAGS, ...flags }, { broadcast: false });
+  window.location.assign(state.path);
+}
+
+function finish(state: ExperimentState): void {
+  clearTabFlags();
+  saveExperiment({ ...state, status: 'done' });
+  window.location.assign(state.path);
+}
+
+export function startExperiment(config: ExperimentConfig): void {
+  // An empty or invalid input arrives as NaN, which Math.max/min would pass through
+  const requested = Number.isFinite(config.runsPerVariant) ? Math.round(config.runsPerVariant) : MIN_RUNS;
+  const runsPerVariant = Math.min(MAX_RUNS, Math.max(MIN_RUNS, requested));
+  const schedule: ExperimentState['schedule'] = ['warmup'];
+  for (let i = 0; i < runsPerVariant; i++) {
+    schedule.push(...(i % 2 === 0 ? ['a', 'b'] as const : ['b', 'a'] as const));
+  }
+
+  const state: ExperimentState = {
+    config: { ...config, runsPerVariant },
+    path: withPersistentParams(window.location.pathname, window.location.search),
+    schedule,
+    nextIndex: 0,
+    runs: [],
+    status: 'running',
+  };
+  saveExperiment(state);
+  loadVariant(state);
+}
+
+// Stops after the current load and puts the shared flags back
+export function cancelExperiment(): void {
+  if (getExperiment()?.status === 'running') {
+    clearTabFlags();
+  }
+  clearExperiment();
+}
+
+export function clearExperiment(): void {
+  sessionStorage.removeItem(STORAGE_KEY);
+}
+
+// Called on boot: records this load if an experiment is running, then loads the next one
+export async function resumeExperiment(): Promise<void> {
+  if (getExperiment()?.status !== 'running') return;
+
+  await waitForSettledMetrics();
+
+  // Re-read: the experiment may have been cancelled while this load settled
+  const state = getExperiment();
+  if (state?.status !== 'running') return;
+
+  const variant = state.schedule[state.nextIndex];
+  const updated: ExperimentState = {
+    ...state,
+    nextIndex: state.nextIndex + 1,
+    runs: variant === 'warmup'
+      ? state.runs
+      : [...state.runs, { variant, metrics: getPerformanceCollector().getMetrics() }],
+  };
+
+  if (updated.nextIndex >= updated.schedule.length) {
+    finish(updated);
+  } else {
+    saveExperiment(updated);
+    loadVariant(updated);
+  }
+}
+
+function getVariantStats(values: number[]): VariantStats {
+  const p25 = percentile(values, 0.25) ?? 0;
+  const p75 = percentile(values, 0.75) ?? 0;
+  return { runs: values.length, median: median(values) ?? 0, p75, spread: p75 - p25 };
+}
+
+export function compareVariants(runs: ExperimentRun[]): MetricComparison[] {
+  return BUDGET_METRICS.flatMap(({ key, name, unit, lowerIsBetter = true }) => {
+    const valuesOf = (variant: ExperimentVariant) => runs
+      .filter(run => run.variant === variant)
+      .map(run => run.metrics[key])
+      .filter((value): value is number => value !== undefined);
+    const a = valuesOf('a');
+    const b = valuesOf('b');
+    if (a.length === 0 || b.length === 0) return [];
+
+    const statsA = getVariantStats(a);
+    const statsB = getVariantStats(b);
+    const difference = statsB.median - statsA.median;
+    const test = mannWhitneyU(a, b);
+
+    let verdict: ExperimentVerdict;
+    if (a.length < MIN_RUNS || b.length < MIN_RUNS || !test) {
+      verdict = 'not-enough-data';
+    } else if (test.pValue >= SIGNIFICANCE_LEVEL || difference === 0) {
+      verdict = 'no-difference';
+    } else {
+      verdict = (difference < 0) === lowerIsBetter ? 'better' : 'worse';
+    }
+
+    return [{ metric: key, name, unit, a: statsA, b: statsB, difference, pValue: test?.pValue ?? null, verdict }];
+  });
+}
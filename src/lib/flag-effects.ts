@@ -0,0 +1,52 @@
+// Flag effects engine
+// Flags that change the document itself (injected scripts, stylesheets, preconnects)
+// are applied here on boot and after every change, wherever the change came from
+
+import type { FlagKey, PerformanceFlags } from './types';
+import { getFlags, subscribeToFlags } from './performance-flags';
+import {
+  injectThirdPartyScript,
+  removeThirdPartyScript,
+  loadExtraCSS,
+  removeExtraCSS,
+  addFontPreconnect,
+  removeFontPreconnect,
+} from './performance-utils';
+
+type FlagEffect = (enabled: boolean) => void;
+
+const FLAG_EFFECTS: Partial<Record<FlagKey, FlagEffect>> = {
+  injectThirdParty: enabled => (enabled ? injectThirdPartyScript() : removeThirdPartyScript()),
+  loadExtraCSS: enabled => (enabled ? loadExtraCSS() : removeExtraCSS()),
+  fontPreconnect: enabled => (enabled ? addFontPreconnect() : removeFontPreconnect()),
+};
+
+// Values the document currently reflects; empty until the first run
+let appliedFlags: Partial<PerformanceFlags> = {};
+let unsubscribe: (() => void) | null = null;
+
+export function applyFlagEffects(flags: PerformanceFlags): void {
+  (Object.keys(FLAG_EFFECTS) as FlagKey[]).forEach(key => {
+    if (appliedFlags[key] === flags[key]) return;
+
+    try {
+      FLAG_EFFECTS[key]?.(Boolean(flags[key]));
+    } catch (error) {
+      console.warn(`Failed to apply flag ${key}:`, error);
+    }
+  });
+  appliedFlags = { ...flags };
+}
+
+// Apply the stored flags once and keep the document in sync afterwards
+export function startFlagEffects(): () => void {
+  if (!unsubscribe) {
+    applyFlagEffects(getFlags());
+    unsubscribe = subscribeToFlags(applyFlagEffects);
+  }
+
+  return () => {
+    unsubscribe?.();
+    unsubscribe = null;
+  };
+}
@@ -0,0 +1,351 @@
+// Performance flag registry
+// Single source of truth for every flag: its type, default, panel group and
+// label, the metric it affects, where it applies and how it interacts with others
+
+import type { Page } from './routes';
+
+export type FlagGroup = 'LCP/CLS' | 'Coverage/Network' | 'INP/Long Tasks' | 'Search/Input' | 'CLS/UX';
+export type FlagMetric = 'LCP' | 'CLS' | 'INP' | 'FCP' | 'Network';
+export type FlagPage = Exclude<Page, 'not-found'>;
+
+interface BaseFlagDefinition {
+  group: FlagGroup;
+  label: string;
+  description: string;
+  metrics: readonly FlagMetric[];
+  pages: readonly FlagPage[] | 'all';
+  // Flags that must be on for this one to do anything
+  requires?: readonly string[];
+  // Flags whose effect overlaps with this one, making results hard to attribute
+  conflictsWith?: readonly string[];
+}
+
+export interface BooleanFlagDefinition extends BaseFlagDefinition {
+  kind: 'boolean';
+  default: boolean;
+}
+
+export interface RangeFlagDefinition extends BaseFlagDefinition {
+  kind: 'range';
+  default: number;
+  min: number;
+  max: number;
+  step: number;
+  unit: 'ms' | 'items';
+}
+
+export interface EnumFlagDefinition extends BaseFlagDefinition {
+  kind: 'enum';
+  default: string;
+  options: readonly { value: string; label: string }[];
+}
+
+export type FlagDefinition = BooleanFlagDefinition | RangeFlagDefinition | EnumFlagDefinition;
+
+export const FLAG_REGISTRY = {
+  // LCP/CLS
+  heroPreload: {
+    kind: 'boolean',
+    default: false,
+    group: 'LCP/CLS',
+    label: 'Hero Preload',
+    description: 'Preload hero image',
+    metrics: ['LCP'],
+    pages: ['home'],
+  },
+  heroFetchPriorityHigh: {
+    kind: 'boolean',
+    default: false,
+    group: 'LCP/CLS',
+    label: 'Hero Fetch Priority',
+    description: 'High priority fetch',
+    metrics: ['LCP'],
+    pages: ['home'],
+  },
+  fontPreconnect: {
+    kind: 'boolean',
+    default: false,
+    group: 'LCP/CLS',
+    label: 'Font Preconnect',
+    description: 'Preconnect to fonts',
+    metrics: ['FCP', 'LCP'],
+    pages: 'all',
+  },
+  reserveHeroSpace: {
+    kind: 'boolean',
+    default: false,
+    group: 'LCP/CLS',
+    label: 'Reserve Hero Space',
+    description: 'Fixed hero dimensions',
+    metrics: ['CLS'],
+    pages: ['home'],
+    requires: ['lateBanner'],
+  },
+  lateBanner: {
+    kind: 'boolean',
+    default: false,
+    group: 'LCP/CLS',
+    label: 'Late Banner',
+    description: 'Banner causes CLS',
+    metrics: ['CLS'],
+    pages: ['home'],
+  },
+  lateBannerDelay: {
+    kind: 'range',
+    default: 2000,
+    min: 0,
+    max: 5000,
+    step: 100,
+    unit: 'ms',
+    group: 'LCP/CLS',
+    label: 'Late Banner Delay',
+    description: 'Time before the banner appears',
+    metrics: ['CLS'],
+    pages: ['home'],
+    requires: ['lateBanner'],
+  },
+
+  // Coverage/Network
+  injectThirdParty: {
+    kind: 'boolean',
+    default: false,
+    group: 'Coverage/Network',
+    label: 'Third Party Script',
+    description: 'Heavy blocking script',
+    metrics: ['Network', 'INP'],
+    pages: 'all',
+  },
+  loadExtraCSS: {
+    kind: 'boolean',
+    default: false,
+    group: 'Coverage/Network',
+    label: 'Extra CSS',
+    description: 'Unused CSS rules',
+    metrics: ['Network', 'FCP'],
+    pages: 'all',
+  },
+  lazyOff: {
+    kind: 'boolean',
+    default: false,
+    group: 'Coverage/Network',
+    label: 'Disable Lazy Loading',
+    description: 'Load all images eagerly',
+    metrics: ['Network', 'LCP'],
+    pages: ['products'],
+  },
+
+  // INP/Long Tasks
+  listenersPassive: {
+    kind: 'boolean',
+    default: false,
+    group: 'INP/Long Tasks',
+    label: 'Passive Listeners',
+    description: 'Use passive event listeners',
+    metrics: ['INP'],
+    pages: ['product-detail'],
+  },
+  simulateLongTask: {
+    kind: 'boolean',
+    default: false,
+    group: 'INP/Long Tasks',
+    label: 'Simulate Long Task',
+    description: 'Block main thread',
+    metrics: ['INP'],
+    pages: ['product-detail'],
+  },
+  longTaskDuration: {
+    kind: 'range',
+    default: 120,
+    min: 0,
+    max: 500,
+    step: 10,
+    unit: 'ms',
+    group: 'INP/Long Tasks',
+    label: 'Long Task Duration',
+    description: 'How long each simulated task blocks',
+    metrics: ['INP'],
+    pages: ['product-detail'],
+    requires: ['simulateLongTask'],
+  },
+  useWorker: {
+    kind: 'boolean',
+    default: false,
+    group: 'INP/Long Tasks',
+    label: 'Use Worker',
+    description: 'Move work to worker thread',
+    metrics: ['INP'],
+    pages: ['product-detail', 'search'],
+  },
+
+  // Search/Input
+  debounce: {
+    kind: 'boolean',
+    default: false,
+    group: 'Search/Input',
+    label: 'Debounce Input',
+    description: 'Debounce search input',
+    metrics: ['INP'],
+    pages: ['search'],
+    conflictsWith: ['useWorker'],
+  },
+  debounceDelay: {
+    kind: 'range',
+    default: 300,
+    min: 50,
+    max: 1000,
+    step: 50,
+    unit: 'ms',
+    group: 'Search/Input',
+    label: 'Debounce Delay',
+    description: 'Wait after the last keystroke',
+    metrics: ['INP'],
+    pages: ['search'],
+    requires: ['debounce'],
+  },
+  microYield: {
+    kind: 'boolean',
+    default: false,
+    group: 'Search/Input',
+    label: 'Micro Yield',
+    description: 'Yield between chunks',
+    metrics: ['INP'],
+    pages: ['search'],
+    conflictsWith: ['useWorker'],
+  },
+  microYieldChunkSize: {
+    kind: 'range',
+    default: 50,
+    min: 1,
+    max: 500,
+    step: 1,
+    unit: 'items',
+    group: 'Search/Input',
+    label: 'Chunk Size',
+    description: 'Products filtered between yields',
+    metrics: ['INP'],
+    pages: ['search'],
+    requires: ['microYield'],
+  },
+  yieldStrategy: {
+    kind: 'enum',
+    default: 'auto',
+    options: [
+      { value: 'auto', label: 'Auto (postTask, else setTimeout)' },
+      { value: 'scheduler-yield', label: 'scheduler.yield()' },
+      { value: 'post-task', label: 'scheduler.postTask()' },
+      { value: 'set-timeout', label: 'setTimeout(0)' },
+    ],
+    group: 'Search/Input',
+    label: 'Yield Strategy',
+    description: 'How each yield is scheduled',
+    metrics: ['INP'],
+    pages: ['search'],
+    requires: ['microYield'],
+  },
+
+  // CLS/UX
+  missingSizes: {
+    kind: 'boolean',
+    default: false,
+    group: 'CLS/UX',
+    label: 'Missing Image Sizes',
+    description: 'Images without dimensions',
+    metrics: ['CLS'],
+    pages: ['products', 'product-detail', 'checkout'],
+  },
+  intrinsicPlaceholders: {
+    kind: 'boolean',
+    default: false,
+    group: 'CLS/UX',
+    label: 'Intrinsic Placeholders',
+    description: 'Use content-visibility',
+    metrics: ['CLS'],
+    pages: ['product-detail', 'checkout'],
+  },
+} as const satisfies Record<string, FlagDefinition>;
+
+type Registry = typeof FLAG_REGISTRY;
+
+type FlagValue<D> =
+  D extends { kind: 'boolean' } ? boolean :
+  D extends { kind: 'range' } ? number :
+  D extends { kind: 'enum'; options: readonly { value: infer V }[] } ? V :
+  never;
+
+export type FlagKey = keyof Registry;
+export type PerformanceFlags = { -readonly [K in FlagKey]: FlagValue<Registry[K]> };
+export type BooleanFlagKey = { [K in FlagKey]: Registry[K]['kind'] extends 'boolean' ? K : never }[FlagKey];
+export type FlagParameterKey = Exclude<FlagKey, BooleanFlagKey>;
+export type YieldStrategy = PerformanceFlags['yieldStrategy'];
+
+export const FLAG_KEYS = Object.keys(FLAG_REGISTRY) as FlagKey[];
+
+export function getFlagDefinition(key: FlagKey): FlagDefinition {
+  return FLAG_REGISTRY[key];
+}
+
+export function getFlagGroups(): { group: FlagGroup; keys: FlagKey[] }[] {
+  const groups: { group: FlagGroup; keys: FlagKey[] }[] = [];
+  FLAG_KEYS.forEach(key => {
+    const { group } = FLAG_REGISTRY[key];
+    const existing = groups.find(g => g.group === group);
+    if (existing) {
+      existing.keys.push(key);
+    } else {
+      groups.push({ group, keys: [key] });
+    }
+  });
+  return groups;
+}
+
+export function flagAppliesToPage(key: FlagKey, page: string): boolean {
+  const { pages } = getFlagDefinition(key);
+  return pages === 'all' || (pages as readonly string[]).includes(page);
+}
+
+export interface FlagWarning {
+  flag: FlagKey;
+  other: FlagKey;
+  type: 'requires' | 'conflicts';
+  message: string;
+}
+
+// A flag is "in effect" when a boolean is on or a parameter differs from its default
+function isInEffect(key: FlagKey, flags: PerformanceFlags): boolean {
+  const definition = getFlagDefinition(key);
+  return definition.kind === 'boolean' ? flags[key] === true : flags[key] !== definition.default;
+}
+
+export function validateFlags(flags: PerformanceFlags): FlagWarning[] {
+  const warnings: FlagWarning[] = [];
+
+  FLAG_KEYS.filter(key => isInEffect(key, flags)).forEach(key => {
+    const definition = getFlagDefinition(key);
+
+    (definition.requires ?? []).forEach(required => {
+      const other = required as FlagKey;
+      if (!flags[other]) {
+        warnings.push({
+          flag: key,
+          other,
+          type: 'requires',
+          message: `${definition.label} has no effect without ${FLAG_REGISTRY[other].label}`,
+        });
+      }
+    });
+
+    (definition.conflictsWith ?? []).forEach(conflicting => {
+      const other = conflicting as FlagKey;
+      if (isInEffect(other, flags)) {
+        warnings.push({
+          flag: key,
+          other,
+          type: 'conflicts',
+          message: `${definition.label} and ${FLAG_REGISTRY[other].label} both change search responsiveness; measure them separately`,
+        });
+      }
+    });
+  });
+
+  return warnings;
+}
@@ -0,0 +1,25 @@
+// Formatting shared by the dashboard panels, the overlays and the exported reports
+
+// "1.23s" and "340ms", with a decimal under 10ms where most User Timing measures land
+export function formatMs(value: number): string {
+  if (value >= 1000) return `${(value / 1000).toFixed(2)}s`;
+  return value < 10 ? `${value.toFixed(1)}ms` : `${Math.round(value)}ms`;
+}
+
+export function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)}MB` : `${(bytes / 1024).toFixed(1)}KB`;
+}
+
+// Last path segment of a resource URL, without query or hash
+export function getFileName(url: string): string {
+  return url.split(/[?#]/)[0].split('/').pop() || url;
+}
+
+// A budget metric in its BUDGET_METRICS unit: seconds from 1000ms, MB from 1024KB, and
+// unitless counts as integers but CLS with 3 decimals
+export function formatMetricValue(value: number, unit: string): string {
+  if (unit === 'ms' && Math.abs(value) >= 1000) return `${(value / 1000).toFixed(2)}s`;
+  if (unit === 'KB' && Math.abs(value) >= 1024) return `${(value / 1024).toFixed(1)}MB`;
+  if (unit === '') return Number.isInteger(value) ? `${value}` : value.toFixed(3);
+  return `${Math.round(value)}${unit}`;
+}
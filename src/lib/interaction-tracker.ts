@@ -0,0 +1,175 @@
+// Interaction to Next Paint, measured the way Chrome reports it
+// Event Timing entries are grouped by interactionId (a click produces pointerdown,
+// pointerup and click entries), the longest interactions are kept and INP is the
+// 98th percentile: the worst interaction, minus one for every 50 interactions
+
+import { getSelector } from './metric-attribution';
+
+// interactionId and interactionCount are not in TypeScript's DOM lib yet
+type EventTimingEntry = PerformanceEventTiming & { interactionId?: number };
+type PerformanceWithInteractionCount = Performance & { interactionCount?: number };
+
+// Entries shorter than this are not reported (16ms is the minimum the spec allows;
+// 40ms matches the web-vitals library and still catches every slow interaction)
+export const DEFAULT_DURATION_THRESHOLD = 40;
+
+// Only the worst interactions can ever be the 98th percentile
+const MAX_INTERACTIONS = 10;
+
+export interface Interaction {
+  id: number;
+  latency: number;
+  startTime: number;
+  // Selector of the element the user interacted with, captured while it is still in the DOM
+  target: string | null;
+  entries: PerformanceEventTiming[];
+}
+
+export interface InteractionSummary {
+  inp: number | null;
+  interactionCount: number;
+  worstInteractions: Interaction[];
+}
+
+export class InteractionTracker {
+  private longestInteractions: Interaction[] = [];
+  private seenInteractionIds = new Set<number>();
+  // performance.interactionCount at the last reset
+  private interactionCountOffset = 0;
+  private observer: PerformanceObserver | null = null;
+  private listeners = new Set<(summary: InteractionSummary) => void>();
+
+  // since: ignore interactions that started earlier, e.g. before an in-app navigation
+  constructor(private durationThreshold = DEFAULT_DURATION_THRESHOLD, private since = 0) {
+    if (since > 0) {
+      this.interactionCountOffset = (performance as PerformanceWithInteractionCount).interactionCount ?? 0;
+    }
+  }
+
+  start(): void {
+    if (this.observer || typeof PerformanceObserver === 'undefined') return;
+
+    try {
+      this.observer = new PerformanceObserver((list) => {
+        list.getEntries().forEach(entry => this.processEntry(entry as EventTimingEntry));
+        this.notify();
+      });
+
+      // durationThreshold is missing from TypeScript's PerformanceObserverInit
+      this.observer.observe({
+        type: 'event',
+        buffered: true,
+        durationThreshold: this.durationThreshold,
+      } as PerformanceObserverInit);
+
+      // The first input is always reported, even when it is under the threshold
+      this.observer.observe({ type: 'first-input', buffered: true });
+    } catch (error) {
+      console.warn('Event Timing not supported, INP unavailable:', error);
+    }
+  }
+
+  stop(): void {
+    this.observer?.disconnect();
+    this.observer = null;
+  }
+
+  reset(): void {
+    this.longestInteractions = [];
+    this.seenInteractionIds.clear();
+    this.interactionCountOffset = (performance as PerformanceWithInteractionCount).interactionCount ?? 0;
+    this.notify();
+  }
+
+  processEntry(entry: EventTimingEntry): void {
+    // Entries without an interactionId (e.g. mousemove) are not interactions
+    if (!entry.interactionId || entry.startTime < this.since) return;
+
+    this.seenInteractionIds.add(entry.interactionId);
+
+    const minLongest = this.longestInteractions[this.longestInteractions.length - 1];
+    const existing = this.longestInteractions.find(i => i.id === entry.interactionId);
+
+    if (
+      !existing &&
+      this.longestInteractions.length >= MAX_INTERACTIONS &&
+      entry.duration <= minLongest.latency
+    ) {
+      return;
+    }
+
+    if (existing) {
+      if (!existing.target) {
+        existing.target = getSelector(entry.target);
+      }
+
+      // An interaction's latency is its longest event
+      if (entry.duration > existing.latency) {
+        existing.latency = entry.duration;
+        existing.entries = [entry];
+      } else if (entry.duration === existing.latency) {
+        existing.entries.push(entry);
+      }
+    } else {
+      this.longestInteractions.push({
+        id: entry.interactionId,
+        latency: entry.duration,
+        startTime: entry.startTime,
+        target: getSelector(entry.target),
+        entries: [entry],
+      });
+    }
+
+    this.longestInteractions.sort((a, b) => b.latency - a.latency);
+    this.longestInteractions.splice(MAX_INTERACTIONS);
+  }
+
+  // Chrome counts every interaction, including those under the threshold;
+  // without performance.interactionCount only the reported ones can be counted
+  getInteractionCount(): number {
+    const count = (performance as PerformanceWithInteractionCount).interactionCount;
+    return typeof count === 'number' ? count - this.interactionCountOffset : this.seenInteractionIds.size;
+  }
+
+  getINP(): number | null {
+    if (this.longestInteractions.length === 0) return null;
+
+    const index = Math.min(
+      this.longestInteractions.length - 1,
+      Math.floor(this.getInteractionCount() / 50)
+    );
+    return this.longestInteractions[index].latency;
+  }
+
+  getSummary(): InteractionSummary {
+    return {
+      inp: this.getINP(),
+      interactionCount: this.getInteractionCount(),
+      worstInteractions: this.longestInteractions.map(i => ({ ...i, entries: [...i.entries] })),
+    };
+  }
+
+  subscribe(listener: (summary: InteractionSummary) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    if (this.listeners.size === 0) return;
+    const summary = this.getSummary();
+    this.listeners.forEach(listener => listener(summary));
+  }
+}
+
+// Shared tracker, started on boot so interactions before any panel opens still count
+let globalTracker: InteractionTracker | null = null;
+
+export function getInteractionTracker(): InteractionTracker {
+  if (!globalTracker) {
+    globalTracker = new InteractionTracker();
+    globalTracker.start();
+  }
+  return globalTracker;
+}
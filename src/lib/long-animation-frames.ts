@@ -0,0 +1,74 @@
+// Long Animation Frames (LoAF)
+// Unlike longtask, a long-animation-frame entry says which scripts ran during the
+// frame, so a slow frame can be blamed on thirdparty.js or a specific handler.
+// Supported in Chromium 123+; elsewhere only longtask entries are available.
+
+export interface LoAFScript {
+  sourceURL: string;
+  sourceFunctionName: string;
+  invoker: string;
+  invokerType: string;
+  startTime: number;
+  duration: number;
+  forcedStyleAndLayoutDuration: number;
+}
+
+export interface LongAnimationFrame {
+  startTime: number;
+  duration: number;
+  blockingDuration: number;
+  renderStart: number;
+  styleAndLayoutStart: number;
+  scripts: LoAFScript[];
+}
+
+// PerformanceLongAnimationFrameTiming is not in TypeScript's DOM lib yet
+interface LoAFScriptTiming {
+  sourceURL?: string;
+  sourceFunctionName?: string;
+  invoker?: string;
+  invokerType?: string;
+  startTime: number;
+  duration: number;
+  forcedStyleAndLayoutDuration?: number;
+}
+
+interface LoAFEntry extends PerformanceEntry {
+  blockingDuration?: number;
+  renderStart?: number;
+  styleAndLayoutStart?: number;
+  scripts?: LoAFScriptTiming[];
+}
+
+export function isLoAFSupported(): boolean {
+  return typeof PerformanceObserver !== 'undefined' &&
+    (PerformanceObserver.supportedEntryTypes ?? []).includes('long-animation-frame');
+}
+
+export function toLongAnimationFrame(entry: PerformanceEntry): LongAnimationFrame {
+  const frame = entry as LoAFEntry;
+  return {
+    startTime: frame.startTime,
+    duration: frame.duration,
+    blockingDuration: frame.blockingDuration ?? 0,
+    renderStart: frame.renderStart ?? 0,
+    styleAndLayoutStart: frame.styleAndLayoutStart ?? 0,
+    scripts: (frame.scripts ?? [])
+      .map(script => ({
+        sourceURL: script.sourceURL ?? '',
+        sourceFunctionName: script.sourceFunctionName ?? '',
+        invoker: script.invoker ?? '',
+        invokerType: script.invokerType ?? '',
+        startTime: script.startTime,
+        duration: script.duration,
+        forcedStyleAndLayoutDuration: script.forcedStyleAndLayoutDuration ?? 0,
+      }))
+      .sort((a, b) => b.duration - a.duration),
+  };
+}
+
+// "thirdparty.js" or "ProductDetailPage.tsx:handleAddToCart" rather than a full URL
+export function getScriptLabel(script: LoAFScript): string {
+  const file = script.sourceURL.split('?')[0].split('/').pop() || script.invoker || 'unknown';
+  return script.sourceFunctionName ? `${file}:${script.sourceFunctionName}` : file;
+}
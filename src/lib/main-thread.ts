@@ -0,0 +1,146 @@
+// Main-thread metrics derived from long tasks and long animation frames
+// - Blocking time is the part of each long task over 50ms: a 70ms task blocks for 20ms
+// - TTI is approximated like Lighthouse, from long tasks only: the end of the last
+//   long task before 5s without any, starting at FCP (no earlier than DOMContentLoaded)
+// - TBT is the blocking time between FCP and TTI
+// - The script / style & layout / idle split covers the load, up to TTI. Only long
+//   frames are reported, so shorter work counts as idle
+
+import { getMetricsEngine, type MetricsSnapshot } from './metrics-engine';
+
+const SETTLE_TIMEOUT = 10000;
+const SETTLE_POLL_INTERVAL = 1000;
+
+export interface MainThreadBreakdown {
+  scriptTime: number;
+  styleLayoutTime: number;
+  // Share of the load window (0-100) not spent in long tasks or long frames
+  idlePercentage: number;
+  // 'loaf' splits script from style/layout; 'longtask' only knows tasks, all counted as script
+  source: 'loaf' | 'longtask';
+}
+
+export interface MainThreadMetrics {
+  blockingTime: number;
+  tbt: number | null;
+  tti: number | null;
+  // TTI has seen its full 5s quiet window and will not move
+  ttiFinal: boolean;
+  breakdown: MainThreadBreakdown;
+}
+
+const BLOCKING_THRESHOLD = 50;
+const QUIET_WINDOW = 5000;
+
+function getBlockingTime(duration: number): number {
+  return Math.max(0, duration - BLOCKING_THRESHOLD);
+}
+
+function getTTI(
+  longTasks: PerformanceEntry[],
+  fcp: number,
+  navigation: PerformanceNavigationTiming | null
+): { value: number; final: boolean } {
+  let quietStart = fcp;
+
+  for (const task of longTasks) {
+    const taskEnd = task.startTime + task.duration;
+    if (taskEnd <= quietStart) continue;
+    if (task.startTime - quietStart >= QUIET_WINDOW) break;
+    quietStart = taskEnd;
+  }
+
+  return {
+    value: Math.max(quietStart, navigation?.domContentLoadedEventEnd ?? 0),
+    final: performance.now() - quietStart >= QUIET_WINDOW,
+  };
+}
+
+// Tasks that started before FCP only count from FCP on
+function getTBT(longTasks: PerformanceEntry[], fcp: number, tti: number): number {
+  return longTasks.reduce((total, task) => {
+    const start = Math.max(task.startTime, fcp);
+    const end = Math.min(task.startTime + task.duration, tti);
+    return end > start ? total + getBlockingTime(end - start) : total;
+  }, 0);
+}
+
+function getBreakdown(snapshot: MetricsSnapshot, windowEnd: number): MainThreadBreakdown {
+  let scriptTime = 0;
+  let styleLayoutTime = 0;
+  let busyTime = 0;
+  let source: MainThreadBreakdown['source'] = 'longtask';
+
+  if (snapshot.loafSupported && snapshot.longAnimationFrames.length > 0) {
+    source = 'loaf';
+    snapshot.longAnimationFrames
+      .filter(frame => frame.startTime < windowEnd)
+      .forEach(frame => {
+        const frameEnd = frame.startTime + frame.duration;
+        const forcedLayout = frame.scripts.reduce((total, script) => total + script.forcedStyleAndLayoutDuration, 0);
+        const renderLayout = frame.styleAndLayoutStart > 0 ? frameEnd - frame.styleAndLayoutStart : 0;
+
+        // Layout forced by a script is style/layout work, not script work
+        scriptTime += frame.scripts.reduce((total, script) => total + script.duration, 0) - forcedLayout;
+        styleLayoutTime += forcedLayout + renderLayout;
+        busyTime += frame.duration;
+      });
+  } else {
+    snapshot.longTasks
+      .filter(task => task.startTime < windowEnd)
+      .forEach(task => {
+        scriptTime += task.duration;
+        busyTime += task.duration;
+      });
+  }
+
+  const idlePercentage = windowEnd > 0 ? Math.max(0, 100 - (busyTime / windowEnd) * 100) : 100;
+
+  return {
+    scriptTime: Math.round(scriptTime),
+    styleLayoutTime: Math.round(styleLayoutTime),
+    idlePercentage: Math.round(idlePercentage),
+    source,
+  };
+}
+
+export function getMainThreadMetrics(snapshot: MetricsSnapshot): MainThreadMetrics {
+  const longTasks = [...snapshot.longTasks].sort((a, b) => a.startTime - b.startTime);
+  const blockingTime = longTasks.reduce((total, task) => total + getBlockingTime(task.duration), 0);
+  const fcp = snapshot.vitals.fcp?.value;
+
+  const tti = fcp !== undefined ? getTTI(longTasks, fcp, snapshot.navigation) : null;
+  const tbt = fcp !== undefined && tti ? getTBT(longTasks, fcp, tti.value) : null;
+
+  return {
+    blockingTime: Math.round(blockingTime),
+    tbt: tbt !== null ? Math.round(tbt) : null,
+    tti: tti ? Math.round(tti.value) : null,
+    ttiFinal: tti?.final ?? false,
+    breakdown: getBreakdown(snapshot, tti?.value ?? performance.now()),
+  };
+}
+
+// Resolves after load, once TTI is final or 10s later when the main thread never settles
+export async function waitForSettledMetrics(): Promise<void> {
+  await new Promise(resolve => {
+    if (document.readyState === 'complete') {
+      resolve(void 0);
+    } else {
+      window.addEventListener('load', () => resolve(void 0), { once: true });
+    }
+  });
+
+  return new Promise(resolve => {
+    const loadedAt = performance.now();
+    const check = () => {
+      const { ttiFinal } = getMainThreadMetrics(getMetricsEngine().getSnapshot());
+      if (ttiFinal || performance.now() - loadedAt >= SETTLE_TIMEOUT) {
+        resolve();
+      } else {
+        setTimeout(check, SETTLE_POLL_INTERVAL);
+      }
+    };
+    check();
+  });
+}
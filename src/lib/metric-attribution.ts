@@ -0,0 +1,161 @@
+// Metric attribution: which element, which handler, which resource
+// Nodes are turned into selectors as soon as an entry is seen, because React may
+// remove them from the document before anyone looks at the attribution
+
+import type { Interaction } from './interaction-tracker';
+
+export interface AttributionRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface LCPAttribution {
+  element: string | null;
+  url: string | null;
+  // The four LCP sub-parts; they add up to the LCP value
+  timeToFirstByte: number;
+  resourceLoadDelay: number;
+  resourceLoadDuration: number;
+  elementRenderDelay: number;
+}
+
+export interface INPAttribution {
+  target: string | null;
+  eventType: string;
+  // The three INP phases; they add up to the interaction latency
+  inputDelay: number;
+  processingDuration: number;
+  presentationDelay: number;
+}
+
+export interface CLSSource {
+  node: string | null;
+  previousRect: AttributionRect;
+  currentRect: AttributionRect;
+}
+
+export interface CLSAttribution {
+  largestShiftValue: number;
+  largestShiftTime: number;
+  sources: CLSSource[];
+}
+
+export interface MetricAttribution {
+  lcp: LCPAttribution | null;
+  inp: INPAttribution | null;
+  cls: CLSAttribution | null;
+}
+
+// layout-shift entries are not in TypeScript's DOM lib yet
+export interface LayoutShiftEntry extends PerformanceEntry {
+  value: number;
+  hadRecentInput: boolean;
+  sources?: { node: Node | null; previousRect: DOMRectReadOnly; currentRect: DOMRectReadOnly }[];
+}
+
+const MAX_SELECTOR_DEPTH = 5;
+
+// Short CSS-like path such as "main>div.hero-container>img#hero"
+export function getSelector(node: Node | null | undefined): string | null {
+  if (!node) return null;
+
+  const parts: string[] = [];
+  let current: Node | null = node;
+
+  while (current && current.nodeType === Node.ELEMENT_NODE && parts.length < MAX_SELECTOR_DEPTH) {
+    const element = current as Element;
+    const name = element.tagName.toLowerCase();
+    if (name === 'html' || name === 'body') break;
+
+    if (element.id) {
+      parts.unshift(`${name}#${element.id}`);
+      break;
+    }
+
+    const classes = Array.from(element.classList).slice(0, 2);
+    parts.unshift(classes.length > 0 ? `${name}.${classes.join('.')}` : name);
+    current = element.parentNode;
+  }
+
+  if (parts.length === 0) {
+    return node.nodeType === Node.TEXT_NODE ? '#text' : node.nodeName.toLowerCase();
+  }
+  return parts.join('>');
+}
+
+function toRect(rect: DOMRectReadOnly): AttributionRect {
+  return { x: rect.x, y: rect.y, width: rect.width, height: rect.height };
+}
+
+export function getLCPAttribution(
+  entry: LargestContentfulPaint,
+  element: string | null,
+  navigation: PerformanceNavigationTiming | null
+): LCPAttribution {
+  const timeToFirstByte = navigation?.responseStart ?? 0;
+  const resource = entry.url
+    ? (performance.getEntriesByType('resource') as PerformanceResourceTiming[]).find(r => r.name === entry.url)
+    : undefined;
+
+  // Text and inline images have no resource: everything after TTFB is render delay
+  if (!resource) {
+    return {
+      element,
+      url: entry.url || null,
+      timeToFirstByte,
+      resourceLoadDelay: 0,
+      resourceLoadDuration: 0,
+      elementRenderDelay: Math.max(0, entry.startTime - timeToFirstByte),
+    };
+  }
+
+  const requestStart = Math.max(timeToFirstByte, resource.requestStart || resource.startTime);
+  const loadEnd = Math.min(entry.startTime, Math.max(requestStart, resource.responseEnd));
+
+  return {
+    element,
+    url: entry.url,
+    timeToFirstByte,
+    resourceLoadDelay: requestStart - timeToFirstByte,
+    resourceLoadDuration: loadEnd - requestStart,
+    elementRenderDelay: entry.startTime - loadEnd,
+  };
+}
+
+export function getINPAttribution(interaction: Interaction): INPAttribution | null {
+  const [first] = interaction.entries;
+  if (!first) return null;
+
+  // Events of one interaction share a frame: take the widest processing span
+  const processingStart = Math.min(...interaction.entries.map(entry => entry.processingStart));
+  const processingEnd = Math.max(...interaction.entries.map(entry => entry.processingEnd));
+  const end = first.startTime + interaction.latency;
+
+  return {
+    target: interaction.target,
+    eventType: first.name,
+    inputDelay: processingStart - first.startTime,
+    processingDuration: processingEnd - processingStart,
+    presentationDelay: Math.max(0, end - processingEnd),
+  };
+}
+
+export function getCLSAttribution(entries: LayoutShiftEntry[]): CLSAttribution | null {
+  const largest = entries.reduce<LayoutShiftEntry | null>(
+    (max, entry) => (!max || entry.value > max.value ? entry : max),
+    null
+  );
+  if (!largest) return null;
+
+  return {
+    largestShiftValue: largest.value,
+    largestShiftTime: largest.startTime,
+    sources: (largest.sources ?? []).map(source => ({
+      node: getSelector(source.node),
+      previousRect: toRect(source.previousRect),
+      currentRect: toRect(source.currentRect),
+    })),
+  };
+}
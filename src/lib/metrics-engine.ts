@@ -0,0 +1,309 @@
+// Shared Web Vitals engine
+// One set of PerformanceObservers, started on boot, feeds both the budget monitor
+// (performance-budgets.ts) and the Core Web Vitals dashboard so they always agree.
+// CLS and LCP follow the same rules Chrome uses when it reports them:
+// - CLS is the largest session window: shifts less than 1s apart, at most 5s long
+// - LCP stops updating on the first key press, click or scroll, or when the page is hidden
+
+import { getInteractionTracker, type InteractionSummary } from './interaction-tracker';
+import {
+  getCLSAttribution,
+  getINPAttribution,
+  getLCPAttribution,
+  getSelector,
+  type CLSAttribution,
+  type LayoutShiftEntry,
+  type MetricAttribution,
+} from './metric-attribution';
+import { isLoAFSupported, toLongAnimationFrame, type LongAnimationFrame } from './long-animation-frames';
+
+export type VitalName = 'lcp' | 'fid' | 'cls' | 'inp' | 'fcp' | 'ttfb';
+
+export interface VitalValue {
+  value: number;
+  entries: PerformanceEntry[];
+  // No further entries can change the value
+  final: boolean;
+}
+
+export interface MetricsSnapshot {
+  vitals: Partial<Record<VitalName, VitalValue>>;
+  layoutShifts: number;
+  longTasks: PerformanceEntry[];
+  // Empty when the browser has no long-animation-frame support
+  longAnimationFrames: LongAnimationFrame[];
+  loafSupported: boolean;
+  navigation: PerformanceNavigationTiming | null;
+  interactions: InteractionSummary;
+  attribution: MetricAttribution;
+}
+
+export type VitalRating = 'good' | 'needs-improvement' | 'poor';
+
+// Google's thresholds for each vital: up to "good" is good, above "poor" is poor
+export const VITAL_THRESHOLDS: Record<VitalName, { good: number; poor: number }> = {
+  lcp: { good: 2500, poor: 4000 },
+  fid: { good: 100, poor: 300 },
+  cls: { good: 0.1, poor: 0.25 },
+  inp: { good: 200, poor: 500 },
+  fcp: { good: 1800, poor: 3000 },
+  ttfb: { good: 800, poor: 1800 },
+};
+
+export function getVitalRating(name: string, value: number): VitalRating {
+  const threshold = VITAL_THRESHOLDS[name as VitalName];
+  if (!threshold) return 'good';
+
+  if (value <= threshold.good) return 'good';
+  if (value <= threshold.poor) return 'needs-improvement';
+  return 'poor';
+}
+
+const SESSION_GAP = 1000;
+const SESSION_MAX_DURATION = 5000;
+const LCP_FINALIZE_EVENTS = ['keydown', 'click', 'scroll'] as const;
+// Keeps a long session from growing without bound; the newest frames are the interesting ones
+const MAX_LONG_ANIMATION_FRAMES = 100;
+
+// CLS session windows: shifts less than 1s apart join a window of at most 5s;
+// the reported value is the largest window seen so far
+export class CLSSessionWindows {
+  private sessionValue = 0;
+  private sessionEntries: LayoutShiftEntry[] = [];
+  private maxValue = 0;
+  private maxEntries: LayoutShiftEntry[] = [];
+
+  get value(): number {
+    return this.maxValue;
+  }
+
+  get entries(): LayoutShiftEntry[] {
+    return [...this.maxEntries];
+  }
+
+  // Returns true when the entry made a new largest window
+  add(entry: LayoutShiftEntry): boolean {
+    const firstEntry = this.sessionEntries[0];
+    const lastEntry = this.sessionEntries[this.sessionEntries.length - 1];
+    const continuesSession =
+      firstEntry &&
+      entry.startTime - lastEntry.startTime < SESSION_GAP &&
+      entry.startTime - firstEntry.startTime < SESSION_MAX_DURATION;
+
+    if (continuesSession) {
+      this.sessionValue += entry.value;
+      this.sessionEntries.push(entry);
+    } else {
+      this.sessionValue = entry.value;
+      this.sessionEntries = [entry];
+    }
+
+    if (this.sessionValue <= this.maxValue) return false;
+
+    this.maxValue = this.sessionValue;
+    this.maxEntries = [...this.sessionEntries];
+    return true;
+  }
+}
+
+export class MetricsEngine {
+  private vitals: Partial<Record<VitalName, VitalValue>> = {};
+  private layoutShifts = 0;
+  private longTasks: PerformanceEntry[] = [];
+  private longAnimationFrames: LongAnimationFrame[] = [];
+  private loafSupported = false;
+  private navigation: PerformanceNavigationTiming | null = null;
+
+  private clsWindows = new CLSSessionWindows();
+
+  // Attribution captured while the elements involved are still in the DOM
+  private lcpEntry: LargestContentfulPaint | null = null;
+  private lcpElement: string | null = null;
+  private clsAttribution: CLSAttribution | null = null;
+
+  private observers: PerformanceObserver[] = [];
+  private lcpObserver: PerformanceObserver | null = null;
+  private started = false;
+  private listeners = new Set<(snapshot: MetricsSnapshot) => void>();
+  private stopInteractions: (() => void) | null = null;
+
+  start(): void {
+    if (this.started || typeof window === 'undefined') return;
+    this.started = true;
+
+    const [navigation] = performance.getEntriesByType('navigation') as PerformanceNavigationTiming[];
+    if (navigation) {
+      this.navigation = navigation;
+      this.setVital('ttfb', navigation.responseStart - navigation.requestStart, [navigation], true);
+    }
+
+    // A page with no shifts has a CLS of 0
+    this.setVital('cls', 0, [], false);
+
+    this.lcpObserver = this.observe('largest-contentful-paint', entries => this.processLCP(entries));
+    this.observe('layout-shift', entries => this.processLayoutShifts(entries as LayoutShiftEntry[]));
+    this.observe('paint', entries => {
+      const fcp = entries.find(entry => entry.name === 'first-contentful-paint');
+      if (fcp) this.setVital('fcp', fcp.startTime, [fcp], true);
+    });
+    this.observe('first-input', entries => {
+      const [entry] = entries as PerformanceEventTiming[];
+      if (entry) this.setVital('fid', entry.processingStart - entry.startTime, [entry], true);
+    });
+    this.observe('longtask', entries => {
+      this.longTasks = [...this.longTasks, ...entries];
+    });
+
+    this.loafSupported = isLoAFSupported();
+    if (this.loafSupported) {
+      this.observe('long-animation-frame', entries => {
+        this.longAnimationFrames = [...this.longAnimationFrames, ...entries.map(toLongAnimationFrame)]
+          .slice(-MAX_LONG_ANIMATION_FRAMES);
+      });
+    }
+
+    const tracker = getInteractionTracker();
+    this.updateINP(tracker.getSummary());
+    this.stopInteractions = tracker.subscribe(summary => {
+      this.updateINP(summary);
+      this.notify();
+    });
+
+    LCP_FINALIZE_EVENTS.forEach(type => {
+      window.addEventListener(type, this.finalizeLCP, { once: true, capture: true, passive: true });
+    });
+    document.addEventListener('visibilitychange', this.handleVisibilityChange, true);
+  }
+
+  stop(): void {
+    this.observers.forEach(observer => observer.disconnect());
+    this.observers = [];
+    this.lcpObserver = null;
+    this.stopInteractions?.();
+    this.stopInteractions = null;
+    LCP_FINALIZE_EVENTS.forEach(type => window.removeEventListener(type, this.finalizeLCP, true));
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange, true);
+    this.started = false;
+  }
+
+  getSnapshot(): MetricsSnapshot {
+    const interactions = getInteractionTracker().getSummary();
+    return {
+      vitals: { ...this.vitals },
+      layoutShifts: this.layoutShifts,
+      longTasks: [...this.longTasks],
+      longAnimationFrames: [...this.longAnimationFrames],
+      loafSupported: this.loafSupported,
+      navigation: this.navigation,
+      interactions,
+      attribution: this.getAttribution(interactions),
+    };
+  }
+
+  private getAttribution(interactions: InteractionSummary): MetricAttribution {
+    const inpInteraction = interactions.worstInteractions.find(i => i.latency === interactions.inp);
+    return {
+      lcp: this.lcpEntry ? getLCPAttribution(this.lcpEntry, this.lcpElement, this.navigation) : null,
+      inp: inpInteraction ? getINPAttribution(inpInteraction) : null,
+      cls: this.clsAttribution,
+    };
+  }
+
+  subscribe(listener: (snapshot: MetricsSnapshot) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private observe(type: string, callback: (entries: PerformanceEntry[]) => void): PerformanceObserver | null {
+    if (typeof PerformanceObserver === 'undefined') return null;
+
+    try {
+      const observer = new PerformanceObserver(list => {
+        callback(list.getEntries());
+        this.notify();
+      });
+      observer.observe({ type, buffered: true });
+      this.observers.push(observer);
+      return observer;
+    } catch (error) {
+      console.warn(`Failed to observe ${type}:`, error);
+      return null;
+    }
+  }
+
+  private processLCP(entries: PerformanceEntry[]): void {
+    if (this.vitals.lcp?.final) return;
+
+    // The latest candidate is the largest one painted so far
+    const latest = entries[entries.length - 1] as LargestContentfulPaint | undefined;
+    if (!latest) return;
+
+    this.lcpEntry = latest;
+    this.lcpElement = getSelector(latest.element);
+    this.setVital('lcp', latest.startTime, [latest], false);
+  }
+
+  private processLayoutShifts(entries: LayoutShiftEntry[]): void {
+    entries.forEach(entry => {
+      // Shifts right after user input are expected and don't count
+      if (entry.hadRecentInput) return;
+
+      this.layoutShifts++;
+      if (this.clsWindows.add(entry)) {
+        this.setVital('cls', this.clsWindows.value, this.clsWindows.entries, false);
+        this.clsAttribution = getCLSAttribution(this.clsWindows.entries);
+      }
+    });
+  }
+
+  private updateINP(summary: InteractionSummary): void {
+    if (summary.inp === null) return;
+
+    const worst = summary.worstInteractions.find(interaction => interaction.latency === summary.inp);
+    this.setVital('inp', summary.inp, worst?.entries ?? [], false);
+  }
+
+  // Arrow functions so the same reference can be removed again
+  private finalizeLCP = (): void => {
+    if (!this.lcpObserver || this.vitals.lcp?.final) return;
+
+    // Pick up candidates reported before the input but not yet delivered
+    this.processLCP(this.lcpObserver.takeRecords());
+    this.lcpObserver.disconnect();
+    this.observers = this.observers.filter(observer => observer !== this.lcpObserver);
+    this.lcpObserver = null;
+
+    if (this.vitals.lcp) {
+      this.vitals.lcp = { ...this.vitals.lcp, final: true };
+    }
+    this.notify();
+  };
+
+  private handleVisibilityChange = (): void => {
+    if (document.visibilityState === 'hidden') {
+      this.finalizeLCP();
+    }
+  };
+
+  private setVital(name: VitalName, value: number, entries: PerformanceEntry[], final: boolean): void {
+    this.vitals[name] = { value, entries, final };
+  }
+
+  private notify(): void {
+    if (this.listeners.size === 0) return;
+    const snapshot = this.getSnapshot();
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+}
+
+let globalEngine: MetricsEngine | null = null;
+
+export function getMetricsEngine(): MetricsEngine {
+  if (!globalEngine) {
+    globalEngine = new MetricsEngine();
+    globalEngine.start();
+  }
+  return globalEngine;
+}
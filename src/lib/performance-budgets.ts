@@ -1,5 +1,14 @@
 // Performance Budget Management System
 
+import { getMetricsEngine } from './metrics-engine';
+import { getMainThreadMetrics } from './main-thread';
+import {
+  getResourceBreakdown,
+  toClassifiedResource,
+  type ClassifiedResource,
+  type ResourceBreakdown,
+} from './resource-classification';
+
 export interface PerformanceBudget {
   // Core Web Vitals Budgets
   lcp: number;      // Largest Contentful Paint (ms)
@@ -20,8 +29,15 @@ export interface PerformanceBudget {
   
   // Performance Budgets
   longTasks: number;       // Max long tasks count
-  mainThreadTime: number;  // Main thread blocking time (ms)
+  mainThreadTime: number;  // Main thread blocking time, the part of long tasks over 50ms (ms)
   layoutShifts: number;    // Max layout shift count
+  tbt: number;             // Total Blocking Time between FCP and TTI (ms)
+  tti: number;             // Time to Interactive, approximated from long tasks (ms)
+  
+  // Main Thread Breakdown (during load, up to TTI)
+  scriptTime: number;      // Script evaluation and execution (ms)
+  styleLayoutTime: number; // Style recalculation and layout (ms)
+  idleTime: number;        // Minimum idle share of the load window (%)
 }
 
 export interface BudgetStatus {
@@ -34,6 +50,36 @@ export interface BudgetStatus {
   unit: string;
 }
 
+export interface BudgetMetric {
+  key: keyof PerformanceBudget;
+  name: string;
+  unit: string;
+  lowerIsBetter?: boolean;
+}
+
+// Every budget key, in display order
+export const BUDGET_METRICS: BudgetMetric[] = [
+  { key: 'lcp', name: 'Largest Contentful Paint', unit: 'ms' },
+  { key: 'inp', name: 'Interaction to Next Paint', unit: 'ms' },
+  { key: 'cls', name: 'Cumulative Layout Shift', unit: '' },
+  { key: 'fcp', name: 'First Contentful Paint', unit: 'ms' },
+  { key: 'ttfb', name: 'Time to First Byte', unit: 'ms' },
+  { key: 'totalSize', name: 'Total Bundle Size', unit: 'KB' },
+  { key: 'jsSize', name: 'JavaScript Size', unit: 'KB' },
+  { key: 'cssSize', name: 'CSS Size', unit: 'KB' },
+  { key: 'imageSize', name: 'Image Size', unit: 'KB' },
+  { key: 'requests', name: 'HTTP Requests', unit: '' },
+  { key: 'thirdPartyRequests', name: 'Third-party Requests', unit: '' },
+  { key: 'longTasks', name: 'Long Tasks', unit: '' },
+  { key: 'mainThreadTime', name: 'Main Thread Blocking', unit: 'ms' },
+  { key: 'tbt', name: 'Total Blocking Time', unit: 'ms' },
+  { key: 'tti', name: 'Time to Interactive', unit: 'ms' },
+  { key: 'layoutShifts', name: 'Layout Shifts', unit: '' },
+  { key: 'scriptTime', name: 'Script Time', unit: 'ms' },
+  { key: 'styleLayoutTime', name: 'Style & Layout Time', unit: 'ms' },
+  { key: 'idleTime', name: 'Main Thread Idle', unit: '%', lowerIsBetter: false }
+];
+
 // Performance Budget Configurations
 export const PERFORMANCE_BUDGETS = {
   // Conservative budget (good performance)
@@ -51,7 +97,12 @@ export const PERFORMANCE_BUDGETS = {
     thirdPartyRequests: 5,
     longTasks: 0,
     mainThreadTime: 100,
-    layoutShifts: 1
+    layoutShifts: 1,
+    tbt: 200,
+    tti: 3800,
+    scriptTime: 300,
+    styleLayoutTime: 50,
+    idleTime: 80
   } as PerformanceBudget,
   
   // Moderate budget (acceptable performance)
@@ -69,7 +120,12 @@ export const PERFORMANCE_BUDGETS = {
     thirdPartyRequests: 10,
     longTasks: 3,
     mainThreadTime: 300,
-    layoutShifts: 3
+    layoutShifts: 3,
+    tbt: 600,
+    tti: 7300,
+    scriptTime: 800,
+    styleLayoutTime: 150,
+    idleTime: 60
   } as PerformanceBudget,
   
   // Relaxed budget (minimum acceptable)
@@ -87,21 +143,35 @@ export const PERFORMANCE_BUDGETS = {
     thirdPartyRequests: 20,
     longTasks: 10,
     mainThreadTime: 1000,
-    layoutShifts: 5
+    layoutShifts: 5,
+    tbt: 1200,
+    tti: 12000,
+    scriptTime: 2000,
+    styleLayoutTime: 400,
+    idleTime: 40
   } as PerformanceBudget
 } as const;
 
-export type BudgetLevel = keyof typeof PERFORMANCE_BUDGETS;
+export type PresetBudgetLevel = keyof typeof PERFORMANCE_BUDGETS;
+
+// 'custom' is the user's own budget, edited in the dashboard or imported from budget.json
+export type BudgetLevel = PresetBudgetLevel | 'custom';
+
+const CUSTOM_BUDGET_STORAGE_KEY = 'performance-budget-custom';
 
 // Current active budget level
 let currentBudgetLevel: BudgetLevel = 'moderate';
 
+function isBudgetLevel(value: string): value is BudgetLevel {
+  return value === 'custom' || value in PERFORMANCE_BUDGETS;
+}
+
 export function getBudgetLevel(): BudgetLevel {
   if (typeof window === 'undefined') return currentBudgetLevel;
   
   try {
     const stored = localStorage.getItem('performance-budget-level');
-    if (stored && stored in PERFORMANCE_BUDGETS) {
+    if (stored && isBudgetLevel(stored)) {
       currentBudgetLevel = stored as BudgetLevel;
     }
   } catch (error) {
@@ -123,197 +193,201 @@ export function setBudgetLevel(level: BudgetLevel): void {
   }
 }
 
+export interface BudgetValidationResult {
+  budget: PerformanceBudget | null;
+  errors: string[];
+}
+
+// Checks an untrusted object (localStorage, an imported file) against the PerformanceBudget
+// schema. Missing keys are taken from base; without a base every key is required.
+export function validateBudget(value: unknown, base?: PerformanceBudget): BudgetValidationResult {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { budget: null, errors: ['Budget must be an object'] };
+  }
+
+  const input = value as Record<string, unknown>;
+  const errors: string[] = [];
+  const budget = { ...base } as PerformanceBudget;
+
+  BUDGET_METRICS.forEach(({ key, name, unit }) => {
+    const raw = input[key];
+    if (raw === undefined) {
+      if (!base) errors.push(`${name} is required`);
+      return;
+    }
+    // 0 is a valid budget ("none allowed"); getBudgetStatus handles it without a ratio
+    if (typeof raw !== 'number' || !Number.isFinite(raw) || raw < 0) {
+      errors.push(`${name} must be a number of 0 or more`);
+      return;
+    }
+    if (unit === '%' && raw > 100) {
+      errors.push(`${name} must be a percentage between 0 and 100`);
+      return;
+    }
+    budget[key] = raw;
+  });
+
+  const knownKeys = new Set<string>(BUDGET_METRICS.map(metric => metric.key));
+  Object.keys(input)
+    .filter(key => !knownKeys.has(key))
+    .forEach(key => errors.push(`Unknown budget metric "${key}"`));
+
+  return errors.length > 0 ? { budget: null, errors } : { budget, errors };
+}
+
+// Starts as a copy of the moderate budget until the user saves their own
+export function getCustomBudget(): PerformanceBudget {
+  if (typeof window === 'undefined') return { ...PERFORMANCE_BUDGETS.moderate };
+
+  try {
+    const stored = localStorage.getItem(CUSTOM_BUDGET_STORAGE_KEY);
+    if (stored) {
+      const { budget, errors } = validateBudget(JSON.parse(stored), PERFORMANCE_BUDGETS.moderate);
+      if (budget) return budget;
+      console.warn('Ignoring invalid custom budget:', errors);
+    }
+  } catch (error) {
+    console.warn('Failed to load custom budget from localStorage:', error);
+  }
+
+  return { ...PERFORMANCE_BUDGETS.moderate };
+}
+
+export function setCustomBudget(budget: PerformanceBudget): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.setItem(CUSTOM_BUDGET_STORAGE_KEY, JSON.stringify(budget));
+  } catch (error) {
+    console.warn('Failed to save custom budget to localStorage:', error);
+  }
+}
+
+export function getBudget(level: BudgetLevel): PerformanceBudget {
+  return level === 'custom' ? getCustomBudget() : PERFORMANCE_BUDGETS[level];
+}
+
 export function getCurrentBudget(): PerformanceBudget {
-  return PERFORMANCE_BUDGETS[getBudgetLevel()];
+  return getBudget(getBudgetLevel());
 }
 
 // Performance metrics collection
 export class PerformanceCollector {
-  private metrics: Partial<PerformanceBudget> = {};
+  private resources: ClassifiedResource[] = [];
   private observer: PerformanceObserver | null = null;
-  private longTaskCount = 0;
-  private mainThreadBlockingTime = 0;
-  private layoutShiftCount = 0;
 
   constructor() {
-    this.initializeObservers();
-    this.collectResourceMetrics();
+    this.observeResources();
   }
 
-  private initializeObservers(): void {
-    if (typeof window === 'undefined' || !('PerformanceObserver' in window)) {
-      return;
-    }
+  // Buffered, so resources loaded before the collector existed are included;
+  // fetches, lazy images and workers loaded later keep arriving
+  private observeResources(): void {
+    if (typeof window === 'undefined' || typeof PerformanceObserver === 'undefined') return;
 
     try {
-      // Observe Web Vitals and Long Tasks
-      this.observer = new PerformanceObserver((list) => {
-        for (const entry of list.getEntries()) {
-          this.processEntry(entry);
-        }
+      this.observer = new PerformanceObserver(list => {
+        const entries = list.getEntries() as PerformanceResourceTiming[];
+        this.resources = [...this.resources, ...entries.map(entry => toClassifiedResource(entry))];
       });
-
-      // Observe different entry types
-      const entryTypes = ['navigation', 'paint', 'largest-contentful-paint', 'layout-shift', 'longtask'];
-      
-      entryTypes.forEach(type => {
-        try {
-          this.observer!.observe({ type, buffered: true });
-        } catch (error) {
-          console.warn(`Failed to observe ${type}:`, error);
-        }
-      });
-
+      this.observer.observe({ type: 'resource', buffered: true });
     } catch (error) {
-      console.warn('Failed to initialize PerformanceObserver:', error);
+      console.warn('Failed to observe resources:', error);
     }
   }
 
-  private processEntry(entry: PerformanceEntry): void {
-    switch (entry.entryType) {
-      case 'navigation':
-        const navEntry = entry as PerformanceNavigationTiming;
-        this.metrics.ttfb = navEntry.responseStart - navEntry.requestStart;
-        break;
-
-      case 'paint':
-        if (entry.name === 'first-contentful-paint') {
-          this.metrics.fcp = entry.startTime;
-        }
-        break;
-
-      case 'largest-contentful-paint':
-        this.metrics.lcp = entry.startTime;
-        break;
-
-      case 'layout-shift':
-        const clsEntry = entry as any;
-        if (!clsEntry.hadRecentInput) {
-          this.layoutShiftCount++;
-          this.metrics.layoutShifts = this.layoutShiftCount;
-          
-          // Accumulate CLS score
-          this.metrics.cls = (this.metrics.cls || 0) + clsEntry.value;
-        }
-        break;
-
-      case 'longtask':
-        this.longTaskCount++;
-        this.mainThreadBlockingTime += entry.duration;
-        this.metrics.longTasks = this.longTaskCount;
-        this.metrics.mainThreadTime = this.mainThreadBlockingTime;
-        break;
-    }
+  public disconnect(): void {
+    this.observer?.disconnect();
+    this.observer = null;
   }
 
-  private async collectResourceMetrics(): Promise<void> {
-    if (typeof window === 'undefined') return;
-
-    // Wait for resources to load
-    await new Promise(resolve => {
-      if (document.readyState === 'complete') {
-        resolve(void 0);
-      } else {
-        window.addEventListener('load', () => resolve(void 0));
-      }
-    });
-
-    const resources = performance.getEntriesByType('resource') as PerformanceResourceTiming[];
-    
-    let totalSize = 0;
-    let jsSize = 0;
-    let cssSize = 0;
-    let imageSize = 0;
-    let requestCount = 0;
-    let thirdPartyCount = 0;
-
-    const currentOrigin = window.location.origin;
-
-    resources.forEach(resource => {
-      const size = resource.transferSize || resource.encodedBodySize || 0;
-      totalSize += size;
-      requestCount++;
-
-      // Check if third-party
-      if (!resource.name.startsWith(currentOrigin)) {
-        thirdPartyCount++;
-      }
-
-      // Categorize by type
-      if (resource.name.endsWith('.js') || resource.name.includes('javascript')) {
-        jsSize += size;
-      } else if (resource.name.endsWith('.css') || resource.name.includes('stylesheet')) {
-        cssSize += size;
-      } else if (resource.name.match(/\.(jpg|jpeg|png|gif|webp|svg)$/i)) {
-        imageSize += size;
-      }
-    });
+  public getResources(): ClassifiedResource[] {
+    return [...this.resources];
+  }
 
-    // Convert bytes to KB
-    this.metrics.totalSize = Math.round(totalSize / 1024);
-    this.metrics.jsSize = Math.round(jsSize / 1024);
-    this.metrics.cssSize = Math.round(cssSize / 1024);
-    this.metrics.imageSize = Math.round(imageSize / 1024);
-    this.metrics.requests = requestCount;
-    this.metrics.thirdPartyRequests = thirdPartyCount;
+  public getResourceBreakdown(): ResourceBreakdown {
+    return getResourceBreakdown(this.resources);
   }
 
-  // Collect INP manually since it's not in PerformanceObserver yet
-  public recordInteraction(duration: number): void {
-    if (!this.metrics.inp || duration > this.metrics.inp) {
-      this.metrics.inp = duration;
-    }
+  private getResourceMetrics(): Partial<PerformanceBudget> {
+    const breakdown = this.getResourceBreakdown();
+    const toKB = (bytes: number) => Math.round(bytes / 1024);
+
+    return {
+      totalSize: toKB(this.resources.reduce((total, resource) => total + resource.size, 0)),
+      // Worker scripts are JavaScript too
+      jsSize: toKB(breakdown.script.size + breakdown.worker.size),
+      cssSize: toKB(breakdown.stylesheet.size),
+      imageSize: toKB(breakdown.image.size),
+      requests: this.resources.length,
+      thirdPartyRequests: this.resources.filter(resource => resource.thirdParty).length,
+    };
   }
 
+  // Web Vitals and long tasks come from the shared engine, which has been observing since boot
   public getMetrics(): Partial<PerformanceBudget> {
-    return { ...this.metrics };
+    const snapshot = getMetricsEngine().getSnapshot();
+    const { vitals, layoutShifts, longTasks } = snapshot;
+    const mainThread = getMainThreadMetrics(snapshot);
+    const metrics: Partial<PerformanceBudget> = {
+      ...this.getResourceMetrics(),
+      layoutShifts,
+      longTasks: longTasks.length,
+      mainThreadTime: mainThread.blockingTime,
+      scriptTime: mainThread.breakdown.scriptTime,
+      styleLayoutTime: mainThread.breakdown.styleLayoutTime,
+      idleTime: mainThread.breakdown.idlePercentage,
+    };
+
+    // Both need FCP first
+    if (mainThread.tbt !== null) metrics.tbt = mainThread.tbt;
+    if (mainThread.tti !== null) metrics.tti = mainThread.tti;
+
+    (['lcp', 'inp', 'cls', 'fcp', 'ttfb'] as const).forEach(name => {
+      const vital = vitals[name];
+      if (vital) metrics[name] = vital.value;
+    });
+
+    return metrics;
   }
 
-  public getBudgetStatus(): BudgetStatus[] {
-    const budget = getCurrentBudget();
+  // Pass a budget resolved for the current route and device (budget-scopes.ts) to use it instead of the level's
+  public getBudgetStatus(budget: PerformanceBudget = getCurrentBudget()): BudgetStatus[] {
     const metrics = this.getMetrics();
     
     const statuses: BudgetStatus[] = [];
 
-    // Helper function to determine status
-    const getStatus = (actual: number, budget: number, lowerIsBetter = true): 'pass' | 'warning' | 'fail' => {
-      const ratio = lowerIsBetter ? actual / budget : budget / actual;
-      if (ratio <= 0.8) return 'pass';
-      if (ratio <= 1.0) return 'warning';
+    // ratio is actual / budget. Lower-is-better: the share of the budget used, passing up to 80%.
+    // Higher-is-better: the share of the budget reached; meeting it passes, up to 20% short is a warning.
+    const getStatus = (ratio: number, lowerIsBetter: boolean): 'pass' | 'warning' | 'fail' => {
+      if (lowerIsBetter) {
+        if (ratio <= 0.8) return 'pass';
+        if (ratio <= 1.0) return 'warning';
+        return 'fail';
+      }
+      if (ratio >= 1.0) return 'pass';
+      if (ratio >= 0.8) return 'warning';
       return 'fail';
     };
 
-    const budgetEntries: Array<{
-      key: keyof PerformanceBudget;
-      name: string;
-      unit: string;
-      lowerIsBetter?: boolean;
-    }> = [
-      { key: 'lcp', name: 'Largest Contentful Paint', unit: 'ms' },
-      { key: 'inp', name: 'Interaction to Next Paint', unit: 'ms' },
-      { key: 'cls', name: 'Cumulative Layout Shift', unit: '' },
-      { key: 'fcp', name: 'First Contentful Paint', unit: 'ms' },
-      { key: 'ttfb', name: 'Time to First Byte', unit: 'ms' },
-      { key: 'totalSize', name: 'Total Bundle Size', unit: 'KB' },
-      { key: 'jsSize', name: 'JavaScript Size', unit: 'KB' },
-      { key: 'cssSize', name: 'CSS Size', unit: 'KB' },
-      { key: 'imageSize', name: 'Image Size', unit: 'KB' },
-      { key: 'requests', name: 'HTTP Requests', unit: '' },
-      { key: 'thirdPartyRequests', name: 'Third-party Requests', unit: '' },
-      { key: 'longTasks', name: 'Long Tasks', unit: '' },
-      { key: 'mainThreadTime', name: 'Main Thread Blocking', unit: 'ms' },
-      { key: 'layoutShifts', name: 'Layout Shifts', unit: '' }
-    ];
-
-    budgetEntries.forEach(({ key, name, unit, lowerIsBetter = true }) => {
+    BUDGET_METRICS.forEach(({ key, name, unit, lowerIsBetter = true }) => {
       const budgetValue = budget[key];
       const actualValue = metrics[key];
 
       if (actualValue !== undefined && budgetValue !== undefined) {
-        const status = getStatus(actualValue, budgetValue, lowerIsBetter);
-        const percentage = lowerIsBetter 
-          ? (actualValue / budgetValue) * 100
-          : (budgetValue / actualValue) * 100;
+        let status: BudgetStatus['status'];
+        let percentage: number;
+        if (budgetValue === 0) {
+          // No ratio to take (e.g. conservative allows no long tasks): a lower-is-better budget
+          // passes only at 0, a higher-is-better one is always met
+          const met = !lowerIsBetter || actualValue <= 0;
+          status = met ? 'pass' : 'fail';
+          percentage = met && lowerIsBetter ? 0 : 100;
+        } else {
+          const ratio = actualValue / budgetValue;
+          status = getStatus(ratio, lowerIsBetter);
+          percentage = ratio * 100;
+        }
 
         statuses.push({
           metric: key,
@@ -330,12 +404,6 @@ export class PerformanceCollector {
     return statuses;
   }
 
-  public disconnect(): void {
-    if (this.observer) {
-      this.observer.disconnect();
-      this.observer = null;
-    }
-  }
 }
 
 // Global performance collector instance
@@ -348,21 +416,20 @@ export function getPerformanceCollector(): PerformanceCollector {
   return globalCollector;
 }
 
+// Re-reads resource sizes; Web Vitals keep accumulating in the shared engine
 export function resetPerformanceCollector(): void {
-  if (globalCollector) {
-    globalCollector.disconnect();
-  }
+  globalCollector?.disconnect();
   globalCollector = new PerformanceCollector();
 }
 
 // Utility functions for budget monitoring
-export function checkBudgetViolations(): BudgetStatus[] {
+export function checkBudgetViolations(budget?: PerformanceBudget): BudgetStatus[] {
   const collector = getPerformanceCollector();
-  const statuses = collector.getBudgetStatus();
+  const statuses = collector.getBudgetStatus(budget);
   return statuses.filter(status => status.status === 'fail');
 }
 
-export function getBudgetSummary(): {
+export function getBudgetSummary(budget?: PerformanceBudget): {
   total: number;
   passed: number;
   warnings: number;
@@ -370,7 +437,7 @@ export function getBudgetSummary(): {
   score: number;
 } {
   const collector = getPerformanceCollector();
-  const statuses = collector.getBudgetStatus();
+  const statuses = collector.getBudgetStatus(budget);
   
   const total = statuses.length;
   const passed = statuses.filter(s => s.status === 'pass').length;
@@ -1,30 +1,146 @@
-import { PerformanceFlags } from './types';
-
-const DEFAULT_FLAGS: PerformanceFlags = {
-  heroPreload: false,
-  heroFetchPriorityHigh: false,
-  fontPreconnect: false,
-  reserveHeroSpace: false,
-  lateBanner: false,
-  injectThirdParty: false,
-  loadExtraCSS: false,
-  lazyOff: false,
-  listenersPassive: false,
-  simulateLongTask: false,
-  useWorker: false,
-  debounce: false,
-  microYield: false,
-  missingSizes: false,
-  intrinsicPlaceholders: false,
-};
+import { PerformanceFlags, FlagScenario, BooleanFlagKey, FlagParameterKey, FlagKey } from './types';
+import { FLAG_KEYS, FLAG_REGISTRY, getFlagDefinition } from './flag-registry';
+import { createCrossTabChannel } from './cross-tab-sync';
+
+const FLAGS_KEY = 'hypercart-flags';
+// Flags for this tab only (A/B experiment variants): sessionStorage survives this tab's
+// reloads, and nothing written there reaches the other tabs
+const TAB_FLAGS_KEY = 'hypercart-tab-flags';
+const SCENARIOS_KEY = 'hypercart-scenarios';
+
+// ?flags=heroPreload,useWorker,longTaskDuration:300 — listed flags on, listed
+// parameters set, everything else back to its default
+export const FLAGS_URL_PARAM = 'flags';
+
+export const DEFAULT_FLAGS = Object.fromEntries(
+  FLAG_KEYS.map(key => [key, FLAG_REGISTRY[key].default])
+) as PerformanceFlags;
+
+export function isFlagParameter(key: keyof PerformanceFlags): key is FlagParameterKey {
+  return getFlagDefinition(key).kind !== 'boolean';
+}
+
+export function isBooleanFlag(key: string): key is BooleanFlagKey {
+  return key in FLAG_REGISTRY && getFlagDefinition(key as FlagKey).kind === 'boolean';
+}
+
+// Validate a raw value for a flag: booleans must be booleans, ranges are clamped
+// and snapped to their step, enums must be a known option. Returns undefined if invalid.
+export function normalizeFlagValue<K extends keyof PerformanceFlags>(
+  key: K,
+  value: unknown
+): PerformanceFlags[K] | undefined {
+  const definition = getFlagDefinition(key);
+  if (definition.kind === 'boolean') {
+    return typeof value === 'boolean' ? value as PerformanceFlags[K] : undefined;
+  }
+
+  if (definition.kind === 'enum') {
+    return definition.options.some(option => option.value === value)
+      ? value as PerformanceFlags[K]
+      : undefined;
+  }
+
+  const number = typeof value === 'string' ? Number(value) : value;
+  if (typeof number !== 'number' || !Number.isFinite(number)) return undefined;
+  const stepped = Math.round((number - definition.min) / definition.step) * definition.step + definition.min;
+  return Math.min(definition.max, Math.max(definition.min, stepped)) as PerformanceFlags[K];
+}
+
+// Keep only known, valid values from untrusted input (localStorage, URL, imported JSON)
+export function sanitizeFlags(raw: unknown): Partial<PerformanceFlags> {
+  if (!raw || typeof raw !== 'object') return {};
+  return FLAG_KEYS.reduce<Partial<PerformanceFlags>>((acc, key) => {
+    const value = normalizeFlagValue(key, (raw as Record<string, unknown>)[key]);
+    return value === undefined ? acc : { ...acc, [key]: value };
+  }, {});
+}
+
+export function formatFlagValue(key: keyof PerformanceFlags, value: PerformanceFlags[keyof PerformanceFlags]): string {
+  const definition = getFlagDefinition(key);
+  if (definition.kind === 'boolean') return value ? 'on' : 'off';
+  if (definition.kind === 'enum') {
+    return definition.options.find(option => option.value === value)?.label ?? String(value);
+  }
+  return `${value}${definition.unit === 'ms' ? 'ms' : ` ${definition.unit}`}`;
+}
+
+// Named configurations used in the talks (see VIDEO_RECORDING_GUIDE.md)
+export const BUILT_IN_SCENARIOS: FlagScenario[] = [
+  {
+    id: 'defaults',
+    name: 'Defaults',
+    description: 'Every flag off',
+    flags: {},
+    builtIn: true,
+  },
+  {
+    id: 'lcp-broken',
+    name: 'LCP broken',
+    description: 'Hero without preload or priority, late banner shifts the page (Video 1 start)',
+    flags: { lateBanner: true },
+    builtIn: true,
+  },
+  {
+    id: 'lcp-fixed',
+    name: 'LCP fixed',
+    description: 'Hero preloaded with high priority, fonts preconnected, late banner lands in reserved space (Video 1 end)',
+    flags: { heroPreload: true, heroFetchPriorityHigh: true, fontPreconnect: true, lateBanner: true, reserveHeroSpace: true },
+    builtIn: true,
+  },
+  {
+    id: 'network-heavy',
+    name: 'Network heavy',
+    description: 'Blocking third-party script and unused CSS (Video 2)',
+    flags: { injectThirdParty: true, loadExtraCSS: true },
+    builtIn: true,
+  },
+  {
+    id: 'inp-worst-case',
+    name: 'INP worst case',
+    description: '300ms long tasks, non-passive listeners, unbatched main-thread search (Videos 3 and 4)',
+    flags: { simulateLongTask: true, longTaskDuration: 300 },
+    builtIn: true,
+  },
+  {
+    id: 'all-optimizations',
+    name: 'All optimizations',
+    description: 'Every fix on, every problem off',
+    flags: {
+      heroPreload: true,
+      heroFetchPriorityHigh: true,
+      fontPreconnect: true,
+      reserveHeroSpace: true,
+      listenersPassive: true,
+      useWorker: true,
+      debounce: true,
+      microYield: true,
+      intrinsicPlaceholders: true,
+    },
+    builtIn: true,
+  },
+];
 
 export function getFlags(): PerformanceFlags {
   if (typeof window === 'undefined') return DEFAULT_FLAGS;
   
+  // A shared link wins over stored flags (see precedence notes below)
+  const urlFlags = getUrlFlags();
+  if (urlFlags) return urlFlags;
+  
+  try {
+    const tabFlags = sessionStorage.getItem(TAB_FLAGS_KEY);
+    if (tabFlags) {
+      return { ...DEFAULT_FLAGS, ...sanitizeFlags(JSON.parse(tabFlags)) };
+    }
+  } catch (error) {
+    console.warn('Failed to load tab flags from sessionStorage:', error);
+  }
+  
   try {
-    const stored = localStorage.getItem('hypercart-flags');
+    const stored = localStorage.getItem(FLAGS_KEY);
     if (stored) {
-      return { ...DEFAULT_FLAGS, ...JSON.parse(stored) };
+      return { ...DEFAULT_FLAGS, ...sanitizeFlags(JSON.parse(stored)) };
     }
   } catch (error) {
     console.warn('Failed to load flags from localStorage:', error);
@@ -33,52 +149,318 @@ export function getFlags(): PerformanceFlags {
   return DEFAULT_FLAGS;
 }
 
-export function setFlag(key: keyof PerformanceFlags, value: boolean): void {
-  if (typeof window === 'undefined') return;
+// Keeps flags identical across open tabs
+const flagsChannel = createCrossTabChannel<PerformanceFlags>('flags', FLAGS_KEY);
+
+const flagListeners = new Set<(flags: PerformanceFlags) => void>();
+
+// Called with the full flag set after every change, in this tab or another one
+export function subscribeToFlags(listener: (flags: PerformanceFlags) => void): () => void {
+  flagListeners.add(listener);
+  return () => {
+    flagListeners.delete(listener);
+  };
+}
+
+function notifyFlagsChanged(updated: PerformanceFlags): void {
+  // Update global state for immediate access
+  if (!window.__hypercart) {
+    window.__hypercart = { flags: updated };
+  } else {
+    window.__hypercart.flags = updated;
+  }
   
+  flagListeners.forEach(listener => listener(updated));
+}
+
+function saveFlags(updated: PerformanceFlags): void {
   try {
-    const current = getFlags();
-    const updated = { ...current, [key]: value };
-    localStorage.setItem('hypercart-flags', JSON.stringify(updated));
-    
-    // Update global state for immediate access
-    if (!window.__hypercart) {
-      window.__hypercart = { flags: updated };
-    } else {
-      window.__hypercart.flags = updated;
-    }
-    
-    // Trigger storage event for cross-component updates
-    window.dispatchEvent(new StorageEvent('storage', {
-      key: 'hypercart-flags',
-      newValue: JSON.stringify(updated),
-    }));
+    localStorage.setItem(FLAGS_KEY, JSON.stringify(updated));
+    notifyFlagsChanged(updated);
+    flagsChannel.publish(updated);
   } catch (error) {
     console.warn('Failed to save flags to localStorage:', error);
   }
 }
 
-export function toggleFlag(key: keyof PerformanceFlags): void {
+export function setFlag<K extends keyof PerformanceFlags>(key: K, value: PerformanceFlags[K]): void {
+  const normalized = normalizeFlagValue(key, value);
+  if (normalized === undefined) {
+    console.warn(`Ignoring invalid value for flag ${key}:`, value);
+    return;
+  }
+  setFlags({ [key]: normalized });
+}
+
+function saveTabFlags(updated: PerformanceFlags): void {
+  try {
+    sessionStorage.setItem(TAB_FLAGS_KEY, JSON.stringify(updated));
+    notifyFlagsChanged(updated);
+  } catch (error) {
+    console.warn('Failed to save tab flags to sessionStorage:', error);
+  }
+}
+
+export interface SetFlagsOptions {
+  // false keeps the change in this tab until clearTabFlags(); the other tabs keep their flags
+  broadcast?: boolean;
+}
+
+// Update several flags with a single write and a single change event
+export function setFlags(changes: Partial<PerformanceFlags>, { broadcast = true }: SetFlagsOptions = {}): void {
+  if (typeof window === 'undefined') return;
+  const updated = { ...getFlags(), ...changes };
+  if (broadcast) {
+    saveFlags(updated);
+  } else {
+    saveTabFlags(updated);
+  }
+}
+
+// Back to the flags every tab shares
+export function clearTabFlags(): void {
+  if (typeof window === 'undefined') return;
+  sessionStorage.removeItem(TAB_FLAGS_KEY);
+  notifyFlagsChanged(getFlags());
+}
+
+export function toggleFlag(key: BooleanFlagKey): void {
   const current = getFlags();
   setFlag(key, !current[key]);
 }
 
-export function getActiveFlags(): (keyof PerformanceFlags)[] {
-  const flags = getFlags();
-  return Object.entries(flags)
-    .filter(([, value]) => value)
-    .map(([key]) => key as keyof PerformanceFlags);
+// Boolean flags that are switched on (parameters are not counted)
+export function getActiveFlags(flags: PerformanceFlags = getFlags()): BooleanFlagKey[] {
+  return FLAG_KEYS
+    .filter(isBooleanFlag)
+    .filter(key => flags[key]);
+}
+
+// Parameters whose value differs from the default
+export function getChangedParameters(flags: PerformanceFlags = getFlags()): FlagParameterKey[] {
+  return FLAG_KEYS
+    .filter(isFlagParameter)
+    .filter(key => flags[key] !== DEFAULT_FLAGS[key]);
+}
+
+export function getActiveFlagCount(flags: PerformanceFlags = getFlags()): number {
+  return getActiveFlags(flags).length;
+}
+
+// Scenarios
+
+export function resolveScenarioFlags(scenario: FlagScenario): PerformanceFlags {
+  return { ...DEFAULT_FLAGS, ...scenario.flags };
+}
+
+export function getCustomScenarios(): FlagScenario[] {
+  if (typeof window === 'undefined') return [];
+  
+  try {
+    const stored = localStorage.getItem(SCENARIOS_KEY);
+    if (stored) {
+      return parseScenarios(JSON.parse(stored));
+    }
+  } catch (error) {
+    console.warn('Failed to load scenarios from localStorage:', error);
+  }
+  
+  return [];
+}
+
+function saveCustomScenarios(scenarios: FlagScenario[]): void {
+  try {
+    localStorage.setItem(SCENARIOS_KEY, JSON.stringify(scenarios));
+  } catch (error) {
+    console.warn('Failed to save scenarios to localStorage:', error);
+  }
+}
+
+export function getScenarios(): FlagScenario[] {
+  return [...BUILT_IN_SCENARIOS, ...getCustomScenarios()];
+}
+
+export function getScenario(id: string): FlagScenario | undefined {
+  return getScenarios().find(scenario => scenario.id === id);
+}
+
+// Replace every flag at once; flags the scenario doesn't mention go back to their defaults
+export function applyScenario(scenarioOrId: FlagScenario | string): PerformanceFlags | null {
+  const scenario = typeof scenarioOrId === 'string' ? getScenario(scenarioOrId) : scenarioOrId;
+  
+  if (!scenario) {
+    console.warn(`Unknown flag scenario: ${scenarioOrId}`);
+    return null;
+  }
+  
+  const flags = resolveScenarioFlags(scenario);
+  if (typeof window !== 'undefined') {
+    saveFlags(flags);
+  }
+  return flags;
+}
+
+// The first scenario whose resolved flags match the current flags exactly
+export function getActiveScenario(flags: PerformanceFlags = getFlags()): FlagScenario | undefined {
+  return getScenarios().find(scenario => {
+    const resolved = resolveScenarioFlags(scenario);
+    return FLAG_KEYS.every(key => resolved[key] === flags[key]);
+  });
+}
+
+function getScenarioId(name: string): string {
+  const slug = name.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `custom-${slug || 'scenario'}`;
+}
+
+// Saving under an existing name overwrites that scenario
+export function saveScenario(name: string, description = '', flags: PerformanceFlags = getFlags()): FlagScenario {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('Scenario name is required');
+  }
+  
+  // Store only the flags that differ from the defaults
+  const changed = FLAG_KEYS
+    .filter(key => flags[key] !== DEFAULT_FLAGS[key])
+    .reduce<Partial<PerformanceFlags>>((acc, key) => ({ ...acc, [key]: flags[key] }), {});
+  
+  const scenario: FlagScenario = {
+    id: getScenarioId(trimmed),
+    name: trimmed,
+    description: description.trim(),
+    flags: changed,
+    builtIn: false,
+  };
+  
+  const others = getCustomScenarios().filter(s => s.id !== scenario.id);
+  saveCustomScenarios([...others, scenario]);
+  return scenario;
+}
+
+export function deleteScenario(id: string): void {
+  saveCustomScenarios(getCustomScenarios().filter(scenario => scenario.id !== id));
+}
+
+export function exportScenarios(): string {
+  const scenarios = getCustomScenarios().map(({ name, description, flags }) => ({ name, description, flags }));
+  return JSON.stringify({ version: 1, scenarios }, null, 2);
+}
+
+// Accepts the exportScenarios() format or a bare array; unknown flags and malformed entries are dropped
+function parseScenarios(data: unknown): FlagScenario[] {
+  const list = Array.isArray(data)
+    ? data
+    : data && typeof data === 'object' && Array.isArray((data as { scenarios?: unknown }).scenarios)
+      ? (data as { scenarios: unknown[] }).scenarios
+      : null;
+  
+  if (!list) {
+    throw new Error('Expected an array of scenarios or { "scenarios": [...] }');
+  }
+  
+  return list.flatMap(entry => {
+    if (!entry || typeof entry !== 'object') return [];
+    const { name, description, flags } = entry as Record<string, unknown>;
+    if (typeof name !== 'string' || !name.trim() || !flags || typeof flags !== 'object') return [];
+    
+    const validFlags = sanitizeFlags(flags);
+    
+    return [{
+      id: getScenarioId(name),
+      name: name.trim(),
+      description: typeof description === 'string' ? description : '',
+      flags: validFlags,
+      builtIn: false,
+    }];
+  });
+}
+
+export function importScenarios(json: string): FlagScenario[] {
+  // Later entries with the same name win
+  const byId = new Map(parseScenarios(JSON.parse(json)).map(scenario => [scenario.id, scenario]));
+  const imported = [...byId.values()];
+  if (imported.length === 0) {
+    throw new Error('No valid scenarios found');
+  }
+  
+  const importedIds = new Set(imported.map(scenario => scenario.id));
+  const kept = getCustomScenarios().filter(scenario => !importedIds.has(scenario.id));
+  saveCustomScenarios([...kept, ...imported]);
+  return imported;
+}
+
+// URL sharing
+//
+// Precedence when the app loads:
+//   1. ?flags= in the URL — replaces the stored flags, then is removed from the address bar
+//   2. Flags stored in localStorage under hypercart-flags
+//   3. DEFAULT_FLAGS
+// Once adopted, the configuration behaves like any locally stored one.
+
+// Only values that differ from the defaults are written: booleans by name, parameters as name:value
+export function encodeFlagsParam(flags: PerformanceFlags): string {
+  return FLAG_KEYS
+    .filter(key => flags[key] !== DEFAULT_FLAGS[key])
+    .map(key => isFlagParameter(key) ? `${key}:${flags[key]}` : key)
+    .join(',');
+}
+
+export function decodeFlagsParam(value: string): PerformanceFlags {
+  const decoded: Record<string, unknown> = {};
+  value.split(',').map(token => token.trim()).filter(Boolean).forEach(token => {
+    const [name, raw] = token.split(':');
+    if (!(name in DEFAULT_FLAGS)) {
+      console.warn(`Ignoring unknown flag in URL: ${name}`);
+      return;
+    }
+    decoded[name] = isBooleanFlag(name) ? raw !== 'false' : raw;
+  });
+  return { ...DEFAULT_FLAGS, ...sanitizeFlags(decoded) };
+}
+
+export function getUrlFlags(search: string = window.location.search): PerformanceFlags | null {
+  const value = new URLSearchParams(search).get(FLAGS_URL_PARAM);
+  return value === null ? null : decodeFlagsParam(value);
+}
+
+// Link to the current page with the given flags; other query params (e.g. debug=1) are kept
+export function getFlagsShareUrl(flags: PerformanceFlags = getFlags()): string {
+  const params = new URLSearchParams(window.location.search);
+  params.delete(FLAGS_URL_PARAM);
+  const rest = params.toString();
+  // Flag names are plain identifiers, so the comma list stays readable without encoding
+  const query = `${rest ? `${rest}&` : ''}${FLAGS_URL_PARAM}=${encodeFlagsParam(flags)}`;
+  return `${window.location.origin}${window.location.pathname}?${query}${window.location.hash}`;
 }
 
-export function getActiveFlagCount(): number {
-  return getActiveFlags().length;
+function adoptUrlFlags(): void {
+  const urlFlags = getUrlFlags();
+  if (!urlFlags) return;
+
+  try {
+    localStorage.setItem(FLAGS_KEY, JSON.stringify(urlFlags));
+    flagsChannel.publish(urlFlags);
+  } catch (error) {
+    // Keep the parameter so getFlags still honours it for this page
+    console.warn('Failed to save flags from URL:', error);
+    return;
+  }
+
+  const url = new URL(window.location.href);
+  url.searchParams.delete(FLAGS_URL_PARAM);
+  window.history.replaceState(window.history.state, '', url.toString());
 }
 
 // Initialize global state
 if (typeof window !== 'undefined') {
+  adoptUrlFlags();
   window.__hypercart = {
     flags: getFlags(),
   };
+  
+  // Another tab already wrote localStorage; only this tab's listeners need to hear about it
+  flagsChannel.subscribe(() => notifyFlagsChanged(getFlags()));
 }
 
 declare global {
@@ -87,4 +469,4 @@ declare global {
       flags: PerformanceFlags;
     };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,217 @@
+// Performance history in IndexedDB, keeping the last 500 page loads
+// Each page load is stored once its metrics settle (TTI reached, or 10s after load) and
+// updated when the page is hidden, so late CLS and INP are kept. A run is compared with
+// the last runs of the same route and flag set: a metric regressed when it is more than
+// two standard deviations and at least 10% worse than their mean.
+
+import { getFlags, getActiveFlags, getChangedParameters } from './performance-flags';
+import type { PerformanceFlags } from './types';
+import {
+  BUDGET_METRICS,
+  getBudgetLevel,
+  getPerformanceCollector,
+  type BudgetLevel,
+  type PerformanceBudget,
+} from './performance-budgets';
+import { waitForSettledMetrics } from './main-thread';
+import { getExperiment } from './experiment-runner';
+import { getPageFromPath, type Page } from './routes';
+import { mean, standardDeviation } from './stats';
+
+export interface PerformanceRun {
+  id?: number;
+  timestamp: number;
+  url: string;
+  route: Page;
+  // Active flags and changed parameters, e.g. "heroPreload,debounceDelay=500"; "" for defaults
+  flagSet: string;
+  flags: PerformanceFlags;
+  budgetLevel: BudgetLevel;
+  userAgent: string;
+  metrics: Partial<PerformanceBudget>;
+}
+
+export interface Regression {
+  metric: keyof PerformanceBudget;
+  name: string;
+  unit: string;
+  value: number;
+  baselineMean: number;
+  baselineStdDev: number;
+  baselineRuns: number;
+}
+
+const DB_NAME = 'hypercart-performance';
+const DB_VERSION = 1;
+const STORE = 'runs';
+
+// Runs compared against; fewer than MIN_BASELINE_RUNS is too noisy to judge
+export const BASELINE_RUNS = 10;
+const MIN_BASELINE_RUNS = 3;
+const Z_THRESHOLD = 2;
+const MIN_RELATIVE_CHANGE = 0.1;
+
+// Oldest runs are deleted beyond this
+const MAX_STORED_RUNS = 500;
+
+export function getFlagSet(flags: PerformanceFlags = getFlags()): string {
+  return [
+    ...getActiveFlags(flags),
+    ...getChangedParameters(flags).map(key => `${key}=${flags[key]}`),
+  ].join(',');
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+        store.createIndex('timestamp', 'timestamp');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+}
+
+function runRequest<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return openDatabase().then(db => new Promise<T>((resolve, reject) => {
+    const request = operation(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }));
+}
+
+// Oldest first
+export async function getRuns(): Promise<PerformanceRun[]> {
+  return runRequest('readonly', store => store.index('timestamp').getAll() as IDBRequest<PerformanceRun[]>);
+}
+
+export async function clearHistory(): Promise<void> {
+  await runRequest('readwrite', store => store.clear());
+  latestRegressions = [];
+  notify();
+}
+
+export function getBaselineRuns(run: PerformanceRun, runs: PerformanceRun[]): PerformanceRun[] {
+  return runs
+    .filter(other => other.id !== run.id && other.timestamp < run.timestamp)
+    .filter(other => other.route === run.route && other.flagSet === run.flagSet)
+    .slice(-BASELINE_RUNS);
+}
+
+export function detectRegressions(run: PerformanceRun, runs: PerformanceRun[]): Regression[] {
+  const baseline = getBaselineRuns(run, runs);
+
+  return BUDGET_METRICS.flatMap(({ key, name, unit, lowerIsBetter = true }) => {
+    const value = run.metrics[key];
+    const history = baseline
+      .map(other => other.metrics[key])
+      .filter((v): v is number => v !== undefined);
+    if (value === undefined || history.length < MIN_BASELINE_RUNS) return [];
+
+    const baselineMean = mean(history);
+    const baselineStdDev = standardDeviation(history, baselineMean);
+    const worsening = lowerIsBetter ? value - baselineMean : baselineMean - value;
+
+    // Identical runs have no spread; the relative change alone then decides
+    const significant = baselineStdDev === 0 || worsening / baselineStdDev > Z_THRESHOLD;
+    const large = worsening > Math.abs(baselineMean) * MIN_RELATIVE_CHANGE;
+    if (worsening <= 0 || !significant || !large) return [];
+
+    return [{ metric: key, name, unit, value, baselineMean, baselineStdDev, baselineRuns: history.length }];
+  });
+}
+
+let latestRegressions: Regression[] = [];
+const listeners = new Set<(regressions: Regression[]) => void>();
+
+function notify(): void {
+  listeners.forEach(listener => listener(latestRegressions));
+}
+
+// Regressions of this page load, once it has been recorded
+export function getLatestRegressions(): Regression[] {
+  return [...latestRegressions];
+}
+
+// Called when a run is recorded or updated, and when history is cleared
+export function subscribeToHistory(listener: (regressions: Regression[]) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// The router's basename is not part of the route paths
+function getLoadedRoute(): Page {
+  const base = import.meta.env.BASE_URL.replace(/\/$/, '');
+  const { pathname } = window.location;
+  return getPageFromPath(pathname.startsWith(base) ? pathname.slice(base.length) : pathname);
+}
+
+// Runs are in id order, which is also timestamp order
+async function pruneRuns(): Promise<void> {
+  const count = await runRequest('readonly', store => store.count());
+  if (count <= MAX_STORED_RUNS) return;
+
+  const oldest = await runRequest('readonly', store => store.getAllKeys(null, count - MAX_STORED_RUNS));
+  await runRequest('readwrite', store => store.delete(IDBKeyRange.upperBound(oldest[oldest.length - 1])));
+}
+
+async function saveRun(run: PerformanceRun): Promise<void> {
+  const isNew = run.id === undefined;
+  run.id = await runRequest('readwrite', store => store.put(run)) as number;
+  if (isNew) {
+    await pruneRuns();
+  }
+  latestRegressions = detectRegressions(run, await getRuns());
+  notify();
+}
+
+let started = false;
+
+// Records this page load; the run keeps the route and flags the page was loaded with
+export async function startPerformanceHistory(): Promise<void> {
+  if (started || typeof window === 'undefined' || typeof indexedDB === 'undefined') return;
+  started = true;
+
+  // Experiment loads are back-to-back reloads with other flags, including a warm-up load;
+  // they would skew the baseline
+  if (getExperiment()?.status === 'running') return;
+
+  // What was loaded, before the user navigates or changes flags
+  const flags = getFlags();
+  const run: PerformanceRun = {
+    timestamp: Date.now(),
+    url: window.location.href,
+    route: getLoadedRoute(),
+    flagSet: getFlagSet(flags),
+    flags,
+    budgetLevel: getBudgetLevel(),
+    userAgent: navigator.userAgent,
+    metrics: {},
+  };
+
+  await waitForSettledMetrics();
+
+  run.metrics = getPerformanceCollector().getMetrics();
+  try {
+    await saveRun(run);
+  } catch (error) {
+    console.warn('Failed to save performance history:', error);
+    return;
+  }
+
+  // Late layout shifts and interactions update the same run
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState !== 'hidden') return;
+    saveRun({ ...run, metrics: getPerformanceCollector().getMetrics() }).catch(error => {
+      console.warn('Failed to update performance history:', error);
+    });
+  });
+}
@@ -0,0 +1,393 @@
+// Performance report: everything the dashboards show, in one file for a ticket
+// The same report renders as JSON (for tools), Markdown (for issue trackers) and a
+// self-contained HTML page with inline styles, so it opens anywhere without this app.
+
+import { getFlags, getActiveFlags, getChangedParameters, formatFlagValue } from './performance-flags';
+import type { BooleanFlagKey, PerformanceFlags } from './types';
+import { getBudgetLevel, getCurrentBudget, getPerformanceCollector, type BudgetLevel, type BudgetStatus } from './performance-budgets';
+import { resolveBudget, getRouteLabel, type BudgetScope } from './budget-scopes';
+import { getMetricsEngine, getVitalRating, type VitalName, type VitalRating } from './metrics-engine';
+import type { MetricAttribution } from './metric-attribution';
+import { getScriptLabel } from './long-animation-frames';
+import { getMainThreadMetrics } from './main-thread';
+import { RESOURCE_CATEGORIES, getResourceBreakdown, type ResourceBreakdown } from './resource-classification';
+import { getWaterfallEntries, type WaterfallEntry } from './resource-waterfall';
+import { getFlagSet } from './performance-history';
+import { getUserTimingRecorder, type UserTimingSummary } from './user-timing';
+import { downloadFile } from './utils';
+import { formatBytes, formatMetricValue, formatMs, getFileName } from './format';
+
+export type ReportFormat = 'json' | 'markdown' | 'html';
+
+export interface ReportLongTask {
+  startTime: number;
+  duration: number;
+  // Time beyond the first 50ms
+  blockingDuration: number;
+  // Scripts that ran, longest first; only with long-animation-frame support
+  scripts: string[];
+}
+
+export interface PerformanceReport {
+  generatedAt: string;
+  url: string;
+  userAgent: string;
+  scope: BudgetScope;
+  vitals: Partial<Record<VitalName, { value: number; rating: VitalRating; final: boolean }>>;
+  interactionCount: number;
+  attribution: MetricAttribution;
+  budget: {
+    level: BudgetLevel;
+    // Route and device adjustments applied to the level's thresholds
+    adjustments: string[];
+    statuses: BudgetStatus[];
+  };
+  flags: {
+    // "" for defaults, as in the performance history
+    flagSet: string;
+    active: BooleanFlagKey[];
+    values: PerformanceFlags;
+  };
+  resources: {
+    breakdown: ResourceBreakdown;
+    entries: WaterfallEntry[];
+  };
+  longTasks: {
+    source: 'loaf' | 'longtask';
+    totalBlockingTime: number;
+    entries: ReportLongTask[];
+  };
+  userTiming: UserTimingSummary;
+}
+
+const LONG_TASK_THRESHOLD = 50;
+// Markdown and HTML list the slowest resources; JSON keeps them all
+const MAX_LISTED_RESOURCES = 25;
+
+// The route and device decide which budget applies, as in the budget monitor
+export function createPerformanceReport(scope: BudgetScope): PerformanceReport {
+  const snapshot = getMetricsEngine().getSnapshot();
+  const collector = getPerformanceCollector();
+  const resolved = resolveBudget(getCurrentBudget(), scope);
+  const flags = getFlags();
+
+  const vitals: PerformanceReport['vitals'] = {};
+  (Object.keys(snapshot.vitals) as VitalName[]).forEach(name => {
+    const vital = snapshot.vitals[name];
+    if (vital) {
+      vitals[name] = { value: vital.value, rating: getVitalRating(name, vital.value), final: vital.final };
+    }
+  });
+
+  const resources = getWaterfallEntries();
+
+  const longTasks: ReportLongTask[] = snapshot.loafSupported
+    ? snapshot.longAnimationFrames.map(frame => ({
+      startTime: frame.startTime,
+      duration: frame.duration,
+      blockingDuration: frame.blockingDuration,
+      scripts: frame.scripts.map(getScriptLabel),
+    }))
+    : snapshot.longTasks.map(task => ({
+      startTime: task.startTime,
+      duration: task.duration,
+      blockingDuration: Math.max(0, task.duration - LONG_TASK_THRESHOLD),
+      scripts: [],
+    }));
+
+  return {
+    generatedAt: new Date().toISOString(),
+    url: window.location.href,
+    userAgent: navigator.userAgent,
+    scope,
+    vitals,
+    interactionCount: snapshot.interactions.interactionCount,
+    attribution: snapshot.attribution,
+    budget: {
+      level: getBudgetLevel(),
+      adjustments: resolved.adjustments.map(({ label, reason }) => `${label}: ${reason}`),
+      statuses: collector.getBudgetStatus(resolved.budget),
+    },
+    flags: {
+      flagSet: getFlagSet(flags),
+      active: getActiveFlags(flags),
+      values: flags,
+    },
+    resources: {
+      breakdown: getResourceBreakdown(resources),
+      entries: resources,
+    },
+    longTasks: {
+      source: snapshot.loafSupported ? 'loaf' : 'longtask',
+      totalBlockingTime: getMainThreadMetrics(snapshot).blockingTime,
+      entries: longTasks,
+    },
+    userTiming: getUserTimingRecorder().getSummary(),
+  };
+}
+
+// Formatting shared by Markdown and HTML
+
+interface ReportTable {
+  title: string;
+  headers: string[];
+  rows: string[][];
+  // Shown instead of an empty table
+  empty: string;
+}
+
+function formatVital(name: VitalName, value: number): string {
+  return name === 'cls' ? value.toFixed(3) : formatMs(value);
+}
+
+function getSummary(report: PerformanceReport): [string, string][] {
+  return [
+    ['URL', report.url],
+    ['Generated', new Date(report.generatedAt).toLocaleString()],
+    ['Route', getRouteLabel(report.scope.route)],
+    ['Device class', report.scope.device],
+    ['Budget level', report.budget.level],
+    ['Budget adjustments', report.budget.adjustments.join('; ') || 'none'],
+    ['Active flags', report.flags.flagSet || 'defaults'],
+    ['User agent', report.userAgent],
+  ];
+}
+
+function getAttributionRows(attribution: MetricAttribution): string[][] {
+  const rows: string[][] = [];
+  const { lcp, inp, cls } = attribution;
+  if (lcp) {
+    rows.push(['LCP', lcp.element ?? 'unknown', [
+      `TTFB ${formatMs(lcp.timeToFirstByte)}`,
+      `load delay ${formatMs(lcp.resourceLoadDelay)}`,
+      `load ${formatMs(lcp.resourceLoadDuration)}`,
+      `render delay ${formatMs(lcp.elementRenderDelay)}`,
+      ...(lcp.url ? [getFileName(lcp.url)] : []),
+    ].join(', ')]);
+  }
+  if (inp) {
+    rows.push(['INP', inp.target ?? 'unknown', [
+      inp.eventType,
+      `input delay ${formatMs(inp.inputDelay)}`,
+      `processing ${formatMs(inp.processingDuration)}`,
+      `presentation ${formatMs(inp.presentationDelay)}`,
+    ].join(', ')]);
+  }
+  if (cls) {
+    rows.push([
+      'CLS',
+      cls.sources.map(source => source.node ?? 'unknown').join(', ') || 'unknown',
+      `largest shift ${cls.largestShiftValue.toFixed(3)} at ${formatMs(cls.largestShiftTime)}`,
+    ]);
+  }
+  return rows;
+}
+
+function getTables(report: PerformanceReport): ReportTable[] {
+  const slowestResources = [...report.resources.entries]
+    .sort((a, b) => b.duration - a.duration)
+    .slice(0, MAX_LISTED_RESOURCES);
+  const changedParameters = getChangedParameters(report.flags.values);
+
+  return [
+    {
+      title: 'Core Web Vitals',
+      headers: ['Metric', 'Value', 'Rating', 'Final'],
+      rows: (Object.keys(report.vitals) as VitalName[]).map(name => {
+        const vital = report.vitals[name]!;
+        return [name.toUpperCase(), formatVital(name, vital.value), vital.rating, vital.final ? 'yes' : 'no'];
+      }),
+      empty: 'No Web Vitals reported yet',
+    },
+    {
+      title: 'Attribution',
+      headers: ['Metric', 'Element', 'Details'],
+      rows: getAttributionRows(report.attribution),
+      empty: 'No attribution available',
+    },
+    {
+      title: 'Budgets',
+      headers: ['Metric', 'Actual', 'Budget', 'Used', 'Status'],
+      rows: report.budget.statuses.map(status => [
+        status.name,
+        formatMetricValue(status.actual, status.unit),
+        formatMetricValue(status.budget, status.unit),
+        `${status.percentage}%`,
+        status.status,
+      ]),
+      empty: 'No budget metrics measured yet',
+    },
+    {
+      title: 'Flags',
+      headers: ['Flag', 'Value'],
+      rows: [
+        ...report.flags.active.map(key => [key, 'on']),
+        ...changedParameters.map(key => [key, formatFlagValue(key, report.flags.values[key])]),
+      ],
+      empty: 'All flags at their defaults',
+    },
+    {
+      title: 'Resources by type',
+      headers: ['Type', 'Requests', 'Size'],
+      rows: RESOURCE_CATEGORIES
+        .filter(category => report.resources.breakdown[category].count > 0)
+        .map(category => {
+          const { count, size } = report.resources.breakdown[category];
+          return [category, `${count}`, formatBytes(size)];
+        }),
+      empty: 'No resources loaded',
+    },
+    {
+      title: `Slowest resources (${slowestResources.length} of ${report.resources.entries.length})`,
+      headers: ['Resource', 'Type', 'Start', 'Duration', 'Transferred', 'Cache', 'Party', 'Render-blocking'],
+      rows: slowestResources.map(resource => [
+        getFileName(resource.name),
+        resource.category,
+        formatMs(resource.startTime),
+        formatMs(resource.duration),
+        formatBytes(resource.transferSize),
+        resource.cached ? 'hit' : 'miss',
+        resource.thirdParty ? 'third' : 'first',
+        resource.renderBlocking === null ? '—' : resource.renderBlocking ? 'yes' : 'no',
+      ]),
+      empty: 'No resources loaded',
+    },
+    {
+      title: `${report.longTasks.source === 'loaf' ? 'Long animation frames' : 'Long tasks'} (blocking ${formatMs(report.longTasks.totalBlockingTime)})`,
+      headers: ['Start', 'Duration', 'Blocking', 'Scripts'],
+      rows: report.longTasks.entries.map(task => [
+        formatMs(task.startTime),
+        formatMs(task.duration),
+        formatMs(task.blockingDuration),
+        task.scripts.join(', ') || '—',
+      ]),
+      empty: 'No long tasks',
+    },
+    {
+      title: 'User Timing measures',
+      headers: ['Name', 'Count', 'Min', 'Median', 'Max'],
+      rows: report.userTiming.measures.map(measure => [
+        measure.name,
+        `${measure.count}`,
+        formatMs(measure.min),
+        formatMs(measure.median),
+        formatMs(measure.max),
+      ]),
+      empty: 'No measures recorded',
+    },
+    {
+      title: 'User Timing marks',
+      headers: ['Name', 'Time'],
+      rows: report.userTiming.marks.map(mark => [mark.name, formatMs(mark.startTime)]),
+      empty: 'No marks recorded',
+    },
+  ];
+}
+
+// Markdown
+
+function escapeMarkdownCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+function toMarkdownTable(headers: string[], rows: string[][]): string {
+  return [
+    `| ${headers.map(escapeMarkdownCell).join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.map(escapeMarkdownCell).join(' | ')} |`),
+  ].join('\n');
+}
+
+export function toMarkdown(report: PerformanceReport): string {
+  const sections = getTables(report).map(({ title, headers, rows, empty }) =>
+    `## ${title}\n\n${rows.length > 0 ? toMarkdownTable(headers, rows) : `_${empty}_`}`
+  );
+
+  return [
+    '# HyperCart Performance Report',
+    getSummary(report).map(([label, value]) => `- **${label}**: ${value}`).join('\n'),
+    ...sections,
+  ].join('\n\n') + '\n';
+}
+
+// HTML
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const RATING_CLASSES: Record<string, string> = {
+  good: 'good',
+  pass: 'good',
+  'needs-improvement': 'warn',
+  warning: 'warn',
+  poor: 'bad',
+  fail: 'bad',
+};
+
+const HTML_STYLES = `
+  body { font: 14px/1.5 system-ui, sans-serif; color: #1f2937; max-width: 1100px; margin: 2rem auto; padding: 0 1rem; }
+  h1 { font-size: 1.5rem; } h2 { font-size: 1.1rem; margin-top: 2rem; }
+  dl { display: grid; grid-template-columns: max-content 1fr; gap: .25rem 1rem; } dt { font-weight: 600; } dd { margin: 0; word-break: break-all; }
+  table { border-collapse: collapse; width: 100%; font-size: 13px; }
+  th, td { text-align: left; padding: .35rem .5rem; border-bottom: 1px solid #e5e7eb; }
+  th { color: #6b7280; font-weight: 500; }
+  td { font-family: ui-monospace, monospace; }
+  .good { color: #15803d; } .warn { color: #a16207; } .bad { color: #b91c1c; font-weight: 600; }
+  .empty { color: #6b7280; font-style: italic; }
+`;
+
+function toHtmlTable(headers: string[], rows: string[][]): string {
+  const head = headers.map(header => `<th>${escapeHtml(header)}</th>`).join('');
+  const body = rows.map(row => {
+    const cells = row.map(cell => {
+      const className = RATING_CLASSES[cell];
+      return className ? `<td class="${className}">${escapeHtml(cell)}</td>` : `<td>${escapeHtml(cell)}</td>`;
+    });
+    return `<tr>${cells.join('')}</tr>`;
+  }).join('\n');
+  return `<table>\n<thead><tr>${head}</tr></thead>\n<tbody>\n${body}\n</tbody>\n</table>`;
+}
+
+export function toHtml(report: PerformanceReport): string {
+  const summary = getSummary(report)
+    .map(([label, value]) => `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`)
+    .join('\n');
+  const sections = getTables(report).map(({ title, headers, rows, empty }) =>
+    `<h2>${escapeHtml(title)}</h2>\n${rows.length > 0 ? toHtmlTable(headers, rows) : `<p class="empty">${escapeHtml(empty)}</p>`}`
+  );
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>HyperCart Performance Report · ${escapeHtml(report.generatedAt)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<h1>HyperCart Performance Report</h1>
+<dl>
+${summary}
+</dl>
+${sections.join('\n')}
+</body>
+</html>
+`;
+}
+
+const FORMATS: Record<ReportFormat, { extension: string; type: string; render: (report: PerformanceReport) => string }> = {
+  json: { extension: 'json', type: 'application/json', render: report => JSON.stringify(report, null, 2) },
+  markdown: { extension: 'md', type: 'text/markdown', render: toMarkdown },
+  html: { extension: 'html', type: 'text/html', render: toHtml },
+};
+
+export function downloadReport(report: PerformanceReport, format: ReportFormat): void {
+  const { extension, type, render } = FORMATS[format];
+  // e.g. hypercart-report-2025-01-31T10-15-00.html
+  const filename = `hypercart-report-${report.generatedAt.slice(0, 19).replace(/:/g, '-')}.${extension}`;
+  downloadFile(render(report), filename, type);
+}
@@ -1,5 +1,14 @@
 // Performance debugging utilities
 
+import {
+  isWorkerResponse,
+  type WorkerRequest,
+  type WorkerTaskPayload,
+  type WorkerTaskResult,
+  type WorkerTaskType,
+} from './worker-protocol';
+import type { YieldStrategy } from './types';
+
 export function block(ms = 120): void {
   performance.mark('block-start');
   const end = performance.now() + ms;
@@ -113,25 +122,70 @@ export async function debounce<T extends (...args: any[]) => any>(
   };
 }
 
-export function microYield(): Promise<void> {
+// The Prioritized Task Scheduling API is not in TypeScript's DOM lib yet, and yield()
+// shipped later than postTask(), so either may be missing
+interface Scheduler {
+  postTask?: (callback: () => void, options?: { priority?: 'user-blocking' | 'user-visible' | 'background' }) => Promise<void>;
+  yield?: () => Promise<void>;
+}
+
+export function microYield(strategy: YieldStrategy = 'auto'): Promise<void> {
+  const scheduler = 'scheduler' in window ? window.scheduler as Scheduler : undefined;
+
+  if (strategy === 'scheduler-yield' && scheduler?.yield) {
+    return scheduler.yield();
+  }
+
   return new Promise(resolve => {
-    if ('scheduler' in window && 'postTask' in (window as any).scheduler) {
-      (window as any).scheduler.postTask(resolve, { priority: 'user-blocking' });
+    if (strategy !== 'set-timeout' && scheduler?.postTask) {
+      scheduler.postTask(resolve, { priority: 'user-blocking' });
     } else {
       setTimeout(resolve, 0);
     }
   });
 }
 
+export const DEFAULT_WORKER_TIMEOUT = 5000;
+
+export class WorkerTaskError extends Error {
+  constructor(public readonly taskType: string, message: string) {
+    super(`Worker task "${taskType}" failed: ${message}`);
+    this.name = 'WorkerTaskError';
+  }
+}
+
+export class WorkerTimeoutError extends Error {
+  constructor(public readonly taskType: string, public readonly timeout: number) {
+    super(`Worker task "${taskType}" timed out after ${timeout}ms`);
+    this.name = 'WorkerTimeoutError';
+  }
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+export interface WorkerTaskOptions {
+  timeout?: number;
+  signal?: AbortSignal;
+}
+
+interface PendingTask {
+  type: WorkerTaskType;
+  resolve: (result: any) => void;
+  reject: (error: unknown) => void;
+  cleanup: () => void;
+}
+
 export class WorkerManager {
   private worker: Worker | null = null;
   private taskId = 0;
-  private pendingTasks = new Map<number, { resolve: Function; reject: Function }>();
+  private pendingTasks = new Map<number, PendingTask>();
 
   constructor() {
     if (typeof window !== 'undefined') {
       try {
-        this.worker = new Worker('/worker.js');
+        this.worker = new Worker(new URL('../workers/product.worker.ts', import.meta.url), { type: 'module' });
         this.worker.onmessage = this.handleMessage.bind(this);
         this.worker.onerror = this.handleError.bind(this);
       } catch (error) {
@@ -140,31 +194,88 @@ export class WorkerManager {
     }
   }
 
+  get available(): boolean {
+    return this.worker !== null;
+  }
+
   private handleMessage(e: MessageEvent): void {
-    const { taskId, ...result } = e.data;
-    const task = this.pendingTasks.get(taskId);
-    if (task) {
-      task.resolve(result);
-      this.pendingTasks.delete(taskId);
+    if (!isWorkerResponse(e.data)) {
+      console.warn('Ignoring malformed worker message:', e.data);
+      return;
+    }
+
+    const message = e.data;
+    const task = this.pendingTasks.get(message.taskId);
+    // Cancelled or timed-out tasks are already settled; drop their late replies
+    if (!task) return;
+
+    this.settle(message.taskId);
+    if (message.kind === 'result') {
+      task.resolve(message.result);
+    } else {
+      task.reject(new WorkerTaskError(message.type, message.message));
     }
   }
 
+  // Task failures arrive as error replies, so this only fires when the worker
+  // itself is broken (e.g. the script failed to load) and nothing can complete
   private handleError(error: ErrorEvent): void {
     console.error('Worker error:', error);
-    this.pendingTasks.forEach(task => task.reject(error));
-    this.pendingTasks.clear();
+    error.preventDefault();
+    const tasks = [...this.pendingTasks.entries()];
+    tasks.forEach(([id, task]) => {
+      this.settle(id);
+      task.reject(new WorkerTaskError(task.type, error.message || 'worker crashed'));
+    });
   }
 
-  async execute(type: string, payload: any): Promise<any> {
+  private settle(taskId: number): void {
+    const task = this.pendingTasks.get(taskId);
+    if (task) {
+      task.cleanup();
+      this.pendingTasks.delete(taskId);
+    }
+  }
+
+  async execute<T extends WorkerTaskType>(
+    type: T,
+    payload: WorkerTaskPayload<T>,
+    options: WorkerTaskOptions = {}
+  ): Promise<WorkerTaskResult<T>> {
     if (!this.worker) {
       throw new Error('Worker not available');
     }
 
+    const { timeout = DEFAULT_WORKER_TIMEOUT, signal } = options;
+    signal?.throwIfAborted();
+
     const taskId = ++this.taskId;
-    
-    return new Promise((resolve, reject) => {
-      this.pendingTasks.set(taskId, { resolve, reject });
-      this.worker!.postMessage({ type, payload, taskId });
+    const worker = this.worker;
+
+    return new Promise<WorkerTaskResult<T>>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.settle(taskId);
+        reject(new WorkerTimeoutError(type, timeout));
+      }, timeout);
+
+      const handleAbort = () => {
+        this.settle(taskId);
+        reject(signal!.reason ?? new DOMException('Worker task aborted', 'AbortError'));
+      };
+      signal?.addEventListener('abort', handleAbort, { once: true });
+
+      this.pendingTasks.set(taskId, {
+        type,
+        resolve,
+        reject,
+        cleanup: () => {
+          clearTimeout(timer);
+          signal?.removeEventListener('abort', handleAbort);
+        },
+      });
+
+      const request = { kind: 'request', taskId, type, payload } as WorkerRequest;
+      worker.postMessage(request);
     });
   }
 
@@ -173,8 +284,293 @@ export class WorkerManager {
       this.worker.terminate();
       this.worker = null;
     }
-    this.pendingTasks.clear();
+    const tasks = [...this.pendingTasks.entries()];
+    tasks.forEach(([id, task]) => {
+      this.settle(id);
+      task.reject(new DOMException('Worker terminated', 'AbortError'));
+    });
+  }
+}
+
+// Priorities mirror scheduler.postTask so the same vocabulary works on both threads
+export type WorkerTaskPriority = 'user-blocking' | 'user-visible' | 'background';
+
+const PRIORITY_ORDER: Record<WorkerTaskPriority, number> = {
+  'user-blocking': 0,
+  'user-visible': 1,
+  'background': 2,
+};
+
+export interface WorkerPoolOptions {
+  size?: number;        // Max concurrent workers
+  idleTimeout?: number; // Terminate a worker after this many ms without work
+}
+
+export interface WorkerPoolTaskOptions extends WorkerTaskOptions {
+  priority?: WorkerTaskPriority;
+}
+
+export interface WorkerPoolStats {
+  size: number;
+  workers: number;
+  busyWorkers: number;
+  queueDepth: number;
+  completedTasks: number;
+  failedTasks: number;
+  lastLatency: number | null;    // Enqueue to settle (ms)
+  averageLatency: number | null;
+  p95Latency: number | null;
+  averageWaitTime: number | null; // Time spent queued (ms)
+}
+
+interface PoolSlot {
+  manager: WorkerManager;
+  busy: boolean;
+  idleTimer: ReturnType<typeof setTimeout> | null;
+}
+
+interface QueuedTask {
+  id: number;
+  type: WorkerTaskType;
+  payload: unknown;
+  priority: WorkerTaskPriority;
+  options: WorkerTaskOptions;
+  enqueuedAt: number;
+  resolve: (result: any) => void;
+  reject: (error: unknown) => void;
+  detachAbort: () => void;
+}
+
+const LATENCY_SAMPLE_SIZE = 50;
+
+function getDefaultPoolSize(): number {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+  return Math.max(1, Math.min(cores - 1, 4));
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+export class WorkerPool {
+  private readonly size: number;
+  private readonly idleTimeout: number;
+  private slots: PoolSlot[] = [];
+  private queue: QueuedTask[] = [];
+  private nextTaskId = 0;
+  private completedTasks = 0;
+  private failedTasks = 0;
+  private latencies: number[] = [];
+  private waitTimes: number[] = [];
+  private listeners = new Set<(stats: WorkerPoolStats) => void>();
+
+  constructor({ size = getDefaultPoolSize(), idleTimeout = 30000 }: WorkerPoolOptions = {}) {
+    this.size = Math.max(1, Math.floor(size));
+    this.idleTimeout = idleTimeout;
+  }
+
+  execute<T extends WorkerTaskType>(
+    type: T,
+    payload: WorkerTaskPayload<T>,
+    options: WorkerPoolTaskOptions = {}
+  ): Promise<WorkerTaskResult<T>> {
+    const { priority = 'user-visible', signal, ...taskOptions } = options;
+
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason ?? new DOMException('Worker task aborted', 'AbortError'));
+    }
+
+    return new Promise<WorkerTaskResult<T>>((resolve, reject) => {
+      const task: QueuedTask = {
+        id: ++this.nextTaskId,
+        type,
+        payload,
+        priority,
+        options: { ...taskOptions, signal },
+        enqueuedAt: performance.now(),
+        resolve,
+        reject,
+        detachAbort: () => {},
+      };
+
+      // Aborting while queued removes the task before it reaches a worker
+      if (signal) {
+        const handleAbort = () => {
+          const index = this.queue.indexOf(task);
+          if (index !== -1) {
+            this.queue.splice(index, 1);
+            reject(signal.reason ?? new DOMException('Worker task aborted', 'AbortError'));
+            this.notify();
+          }
+        };
+        signal.addEventListener('abort', handleAbort, { once: true });
+        task.detachAbort = () => signal.removeEventListener('abort', handleAbort);
+      }
+
+      this.enqueue(task);
+      this.dispatch();
+    });
+  }
+
+  private enqueue(task: QueuedTask): void {
+    // Stable insert: after every task of equal or higher priority
+    const rank = PRIORITY_ORDER[task.priority];
+    const index = this.queue.findIndex(queued => PRIORITY_ORDER[queued.priority] > rank);
+    if (index === -1) {
+      this.queue.push(task);
+    } else {
+      this.queue.splice(index, 0, task);
+    }
+    this.notify();
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      const slot = this.acquireSlot();
+      if (!slot) break;
+
+      const task = this.queue.shift()!;
+      task.detachAbort();
+      this.run(slot, task);
+    }
+    this.notify();
+  }
+
+  // Reuse an idle worker, or lazily spawn one while under the size limit
+  private acquireSlot(): PoolSlot | null {
+    const idle = this.slots.find(slot => !slot.busy);
+    if (idle) {
+      if (idle.idleTimer) {
+        clearTimeout(idle.idleTimer);
+        idle.idleTimer = null;
+      }
+      return idle;
+    }
+
+    if (this.slots.length < this.size) {
+      const slot: PoolSlot = { manager: new WorkerManager(), busy: false, idleTimer: null };
+      this.slots.push(slot);
+      return slot;
+    }
+
+    return null;
+  }
+
+  private run(slot: PoolSlot, task: QueuedTask): void {
+    slot.busy = true;
+    const startedAt = performance.now();
+    this.record(this.waitTimes, startedAt - task.enqueuedAt);
+
+    slot.manager.execute(task.type, task.payload as never, task.options)
+      .then(result => {
+        this.completedTasks++;
+        task.resolve(result);
+      })
+      .catch(error => {
+        if (!isAbortError(error)) {
+          this.failedTasks++;
+        }
+        // A timed-out worker is still stuck on the task; replace it rather than queue behind it
+        if (error instanceof WorkerTimeoutError || !slot.manager.available) {
+          this.retire(slot);
+        }
+        task.reject(error);
+      })
+      .finally(() => {
+        this.record(this.latencies, performance.now() - task.enqueuedAt);
+        slot.busy = false;
+        if (this.slots.includes(slot)) {
+          this.scheduleIdleShutdown(slot);
+        }
+        this.dispatch();
+      });
+  }
+
+  private scheduleIdleShutdown(slot: PoolSlot): void {
+    if (slot.idleTimer) clearTimeout(slot.idleTimer);
+    slot.idleTimer = setTimeout(() => {
+      if (!slot.busy) {
+        this.retire(slot);
+        this.notify();
+      }
+    }, this.idleTimeout);
+  }
+
+  private retire(slot: PoolSlot): void {
+    if (slot.idleTimer) clearTimeout(slot.idleTimer);
+    slot.manager.terminate();
+    this.slots = this.slots.filter(s => s !== slot);
+  }
+
+  private record(samples: number[], value: number): void {
+    samples.push(value);
+    if (samples.length > LATENCY_SAMPLE_SIZE) {
+      samples.shift();
+    }
+  }
+
+  getStats(): WorkerPoolStats {
+    return {
+      size: this.size,
+      workers: this.slots.length,
+      busyWorkers: this.slots.filter(slot => slot.busy).length,
+      queueDepth: this.queue.length,
+      completedTasks: this.completedTasks,
+      failedTasks: this.failedTasks,
+      lastLatency: this.latencies.length > 0 ? this.latencies[this.latencies.length - 1] : null,
+      averageLatency: average(this.latencies),
+      p95Latency: percentile(this.latencies, 95),
+      averageWaitTime: average(this.waitTimes),
+    };
+  }
+
+  subscribe(listener: (stats: WorkerPoolStats) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    if (this.listeners.size === 0) return;
+    const stats = this.getStats();
+    this.listeners.forEach(listener => listener(stats));
+  }
+
+  terminate(): void {
+    const queued = this.queue;
+    this.queue = [];
+    queued.forEach(task => {
+      task.detachAbort();
+      task.reject(new DOMException('Worker pool terminated', 'AbortError'));
+    });
+    [...this.slots].forEach(slot => this.retire(slot));
+    this.notify();
+  }
+}
+
+// Shared worker pool instance
+let globalWorkerPool: WorkerPool | null = null;
+
+export function getWorkerPool(): WorkerPool {
+  if (!globalWorkerPool) {
+    globalWorkerPool = new WorkerPool();
+  }
+  return globalWorkerPool;
+}
+
+export function resetWorkerPool(options?: WorkerPoolOptions): WorkerPool {
+  if (globalWorkerPool) {
+    globalWorkerPool.terminate();
   }
+  globalWorkerPool = new WorkerPool(options);
+  return globalWorkerPool;
 }
 
 export function addPassiveListeners(element: HTMLElement, events: string[], handler: EventListener): void {
@@ -1,4 +1,5 @@
 import { Product } from './types';
+import type { FormattedProduct } from './worker-protocol';
 
 const CATEGORIES = ['Electronics', 'Clothing', 'Home', 'Sports', 'Books'];
 
@@ -110,19 +111,46 @@ export function getProductsByCategory(category: string): Product[] {
   return products.filter(p => p.category === category);
 }
 
-export function searchProducts(query: string): Product[] {
-  if (!query || query.trim() === '') {
-    return getAllProducts();
-  }
+export function getSearchTerms(query: string): string[] {
+  return query.toLowerCase().split(' ').filter(term => term.length > 0);
+}
+
+// Shared by the main-thread search and the worker so both paths match the same products
+export function matchesSearchTerms(product: Product, searchTerms: string[]): boolean {
+  return searchTerms.every(term => 
+    product.name.toLowerCase().includes(term) ||
+    product.description.toLowerCase().includes(term) ||
+    product.category.toLowerCase().includes(term)
+  );
+}
+
+export function filterProducts(products: Product[], searchTerms: string[]): Product[] {
+  return products.filter(product => matchesSearchTerms(product, searchTerms));
+}
+
+export function searchProducts(query: string, products: Product[] = getAllProducts()): Product[] {
+  const searchTerms = getSearchTerms(query);
   
-  const products = getAllProducts();
-  const lowerQuery = query.toLowerCase();
+  if (searchTerms.length === 0) {
+    return products;
+  }
   
-  return products.filter(p => 
-    p.name.toLowerCase().includes(lowerQuery) ||
-    p.description.toLowerCase().includes(lowerQuery) ||
-    p.category.toLowerCase().includes(lowerQuery)
-  );
+  return filterProducts(products, searchTerms);
+}
+
+export function formatProduct(product: Product, processedInWorker: boolean): FormattedProduct {
+  return {
+    ...product,
+    formattedPrice: new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD'
+    }).format(product.price),
+    formattedDescription: product.description,
+    metadata: {
+      processed: new Date().toISOString(),
+      worker: processedInWorker
+    }
+  };
 }
 
 export function getProductDetailDescription(product: Product): string {
@@ -0,0 +1,135 @@
+// Resource classification
+// File extensions miss most of what this app loads: Vite serves modules as .tsx in dev
+// and hashed chunks in production, and the hero video, fonts, workers and fetches have
+// no extension the old checks knew about. The response's MIME type is the most reliable
+// signal when the browser exposes it (contentType, Chromium 129+), then initiatorType,
+// then the URL.
+
+export type ResourceCategory =
+  | 'script'
+  | 'stylesheet'
+  | 'image'
+  | 'font'
+  | 'media'
+  | 'fetch'
+  | 'worker'
+  | 'other';
+
+export const RESOURCE_CATEGORIES: readonly ResourceCategory[] = [
+  'script',
+  'stylesheet',
+  'image',
+  'font',
+  'media',
+  'fetch',
+  'worker',
+  'other',
+];
+
+export interface ClassifiedResource {
+  name: string;
+  category: ResourceCategory;
+  // Bytes over the network; 0 for cache hits
+  transferSize: number;
+  // Bytes the resource takes, also for cache hits
+  size: number;
+  cached: boolean;
+  thirdParty: boolean;
+}
+
+export interface CategoryTotals {
+  count: number;
+  size: number;
+}
+
+export type ResourceBreakdown = Record<ResourceCategory, CategoryTotals>;
+
+// contentType and deliveryType are not in TypeScript's DOM lib yet
+type ResourceTimingEntry = PerformanceResourceTiming & {
+  contentType?: string;
+  deliveryType?: string;
+};
+
+const CONTENT_TYPE_CATEGORIES: Array<[RegExp, ResourceCategory]> = [
+  [/javascript|ecmascript/, 'script'],
+  [/^text\/css/, 'stylesheet'],
+  [/^image\//, 'image'],
+  [/^font\/|font-woff|opentype|truetype/, 'font'],
+  [/^(video|audio)\//, 'media'],
+  [/json|^text\/plain|xml/, 'fetch'],
+];
+
+const INITIATOR_CATEGORIES: Partial<Record<string, ResourceCategory>> = {
+  script: 'script',
+  img: 'image',
+  image: 'image',
+  video: 'media',
+  audio: 'media',
+  track: 'media',
+  fetch: 'fetch',
+  xmlhttprequest: 'fetch',
+  beacon: 'fetch',
+};
+
+const EXTENSION_CATEGORIES: Array<[RegExp, ResourceCategory]> = [
+  [/\.(m?js|jsx|tsx?)$/i, 'script'],
+  [/\.css$/i, 'stylesheet'],
+  [/\.(jpe?g|png|gif|webp|avif|svg|ico)$/i, 'image'],
+  [/\.(woff2?|ttf|otf|eot)$/i, 'font'],
+  [/\.(mp4|webm|ogg|mp3|wav|m4a)$/i, 'media'],
+  [/\.json$/i, 'fetch'],
+];
+
+// Vite emits workers as product.worker-[hash].js, or ?worker_file in dev
+const WORKER_PATTERN = /\.worker[.-]|[?&]worker_file/;
+
+function matchCategory(value: string, patterns: Array<[RegExp, ResourceCategory]>): ResourceCategory | null {
+  const match = patterns.find(([pattern]) => pattern.test(value));
+  return match ? match[1] : null;
+}
+
+export function classifyResource(entry: PerformanceResourceTiming): ResourceCategory {
+  const resource = entry as ResourceTimingEntry;
+
+  // A worker script is served as JavaScript, so check it before the MIME type
+  if (WORKER_PATTERN.test(resource.name)) return 'worker';
+
+  const fromContentType = resource.contentType ? matchCategory(resource.contentType, CONTENT_TYPE_CATEGORIES) : null;
+  if (fromContentType) return fromContentType;
+
+  // 'link' and 'css' are ambiguous (a <link> can preload anything, CSS loads fonts and images)
+  const fromInitiator = INITIATOR_CATEGORIES[resource.initiatorType];
+  if (fromInitiator) return fromInitiator;
+
+  const path = resource.name.split(/[?#]/)[0];
+  return matchCategory(path, EXTENSION_CATEGORIES) ?? 'other';
+}
+
+export function toClassifiedResource(entry: PerformanceResourceTiming, origin = window.location.origin): ClassifiedResource {
+  const resource = entry as ResourceTimingEntry;
+  const size = resource.encodedBodySize || resource.transferSize || 0;
+  // Cross-origin resources without Timing-Allow-Origin report 0 for every size
+  const cached = resource.deliveryType === 'cache' || (resource.transferSize === 0 && resource.encodedBodySize > 0);
+
+  return {
+    name: resource.name,
+    category: classifyResource(resource),
+    transferSize: resource.transferSize || 0,
+    size,
+    cached,
+    thirdParty: !resource.name.startsWith(origin),
+  };
+}
+
+export function getResourceBreakdown(resources: ClassifiedResource[]): ResourceBreakdown {
+  const breakdown = Object.fromEntries(
+    RESOURCE_CATEGORIES.map(category => [category, { count: 0, size: 0 }])
+  ) as ResourceBreakdown;
+
+  resources.forEach(resource => {
+    breakdown[resource.category].count++;
+    breakdown[resource.category].size += resource.size;
+  });
+
+  return breakdown;
+}
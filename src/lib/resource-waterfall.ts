@@ -0,0 +1,93 @@
+// Resource waterfall: when each resource started and where its time went
+// Phases come from Resource Timing. Cross-origin resources without Timing-Allow-Origin
+// report zero for every phase, so they only get a start and an end. Render-blocking
+// status is Chromium 107+; priority hints are read from the element that loaded the
+// resource, since Resource Timing does not expose the fetch priority.
+
+import { toClassifiedResource, type ClassifiedResource } from './resource-classification';
+
+export type ResourcePhase = 'redirect' | 'dns' | 'connect' | 'tls' | 'request' | 'response';
+
+export const RESOURCE_PHASES: readonly ResourcePhase[] = ['redirect', 'dns', 'connect', 'tls', 'request', 'response'];
+
+export interface PhaseTiming {
+  phase: ResourcePhase;
+  start: number;
+  end: number;
+}
+
+export type PriorityHint = 'high' | 'low' | 'auto';
+
+export interface WaterfallEntry extends ClassifiedResource {
+  startTime: number;
+  // responseEnd; startTime + duration for resources without detailed timing
+  endTime: number;
+  duration: number;
+  // Empty when the server sent no Timing-Allow-Origin header
+  phases: PhaseTiming[];
+  // null where the browser does not report it
+  renderBlocking: boolean | null;
+  // fetchpriority of the element that loaded it; null when no element was found
+  priority: PriorityHint | null;
+  protocol: string;
+}
+
+// renderBlockingStatus is not in TypeScript's DOM lib yet
+type ResourceTimingEntry = PerformanceResourceTiming & {
+  renderBlockingStatus?: 'blocking' | 'non-blocking';
+};
+
+function getPhases(entry: PerformanceResourceTiming): PhaseTiming[] {
+  const tlsStart = entry.secureConnectionStart > 0 ? entry.secureConnectionStart : entry.connectEnd;
+  const phases: PhaseTiming[] = [
+    { phase: 'redirect', start: entry.redirectStart, end: entry.redirectEnd },
+    { phase: 'dns', start: entry.domainLookupStart, end: entry.domainLookupEnd },
+    { phase: 'connect', start: entry.connectStart, end: tlsStart },
+    { phase: 'tls', start: tlsStart, end: entry.connectEnd },
+    { phase: 'request', start: entry.requestStart, end: entry.responseStart },
+    { phase: 'response', start: entry.responseStart, end: entry.responseEnd },
+  ];
+
+  // Without Timing-Allow-Origin, requestStart and responseStart are 0
+  if (entry.requestStart === 0) return [];
+  return phases.filter(({ start, end }) => start > 0 && end > start);
+}
+
+// URL → fetchpriority of the <img>, <link> or <script> that references it
+function getPriorityHints(): Map<string, PriorityHint> {
+  const hints = new Map<string, PriorityHint>();
+  document.querySelectorAll<HTMLImageElement | HTMLLinkElement | HTMLScriptElement>('img[src], link[href], script[src]')
+    .forEach(element => {
+      const url = element instanceof HTMLLinkElement ? element.href : element.src;
+      const priority = (element.getAttribute('fetchpriority') ?? 'auto').toLowerCase();
+      // An explicit hint wins over an element that uses the default
+      if (!hints.has(url) || priority !== 'auto') {
+        hints.set(url, priority === 'high' || priority === 'low' ? priority : 'auto');
+      }
+    });
+  return hints;
+}
+
+export function toWaterfallEntry(entry: PerformanceResourceTiming, hints = getPriorityHints()): WaterfallEntry {
+  const resource = entry as ResourceTimingEntry;
+  const endTime = resource.responseEnd > 0 ? resource.responseEnd : resource.startTime + resource.duration;
+
+  return {
+    ...toClassifiedResource(resource),
+    startTime: resource.startTime,
+    endTime,
+    duration: resource.duration,
+    phases: getPhases(resource),
+    renderBlocking: resource.renderBlockingStatus ? resource.renderBlockingStatus === 'blocking' : null,
+    priority: hints.get(resource.name) ?? null,
+    protocol: resource.nextHopProtocol,
+  };
+}
+
+// In start order
+export function getWaterfallEntries(): WaterfallEntry[] {
+  const hints = getPriorityHints();
+  return (performance.getEntriesByType('resource') as PerformanceResourceTiming[])
+    .map(entry => toWaterfallEntry(entry, hints))
+    .sort((a, b) => a.startTime - b.startTime);
+}
@@ -0,0 +1,279 @@
+// Per-route metrics for in-app (soft) navigations
+// Browsers report LCP, CLS and INP once per document, so moving from Products to
+// Product Detail never gets numbers of its own. Each navigation starts a session
+// here, anchored on the page's own start mark (e.g. product-detail-start):
+// - CLS and INP only count shifts and interactions after the session started
+// - LCP is the browser's LCP for the first (hard) load; for soft navigations it is
+//   approximated as the moment the largest visible image in <main> finished loading,
+//   measured on the first frame and whenever an image there loads, frozen on the first
+//   click or key press like real LCP
+
+import type { Page } from './routes';
+import { getMetricsEngine, CLSSessionWindows } from './metrics-engine';
+import { InteractionTracker } from './interaction-tracker';
+import { getSelector, type LayoutShiftEntry } from './metric-attribution';
+import { median } from './stats';
+
+export interface RouteMetrics {
+  id: number;
+  route: Page;
+  path: string;
+  navigationType: 'hard' | 'soft';
+  startTime: number;
+  endTime: number | null;
+  lcp: number | null;
+  lcpElement: string | null;
+  cls: number;
+  inp: number | null;
+  interactionCount: number;
+  longTasks: number;
+}
+
+export interface RouteSummary {
+  route: Page;
+  visits: number;
+  // Medians across visits; null when no visit produced a value
+  lcp: number | null;
+  cls: number;
+  inp: number | null;
+  longTasks: number;
+  latest: RouteMetrics;
+}
+
+// Mark each page emits when it mounts
+const ROUTE_START_MARKS: Record<Page, string> = {
+  home: 'home-page-start',
+  products: 'products-page-start',
+  'product-detail': 'product-detail-start',
+  search: 'search-page-load',
+  checkout: 'checkout-page-load',
+  'not-found': 'not-found-page-load',
+};
+
+const MAX_SESSIONS = 50;
+
+// The app scrolls to the top on every navigation, so only clicks and keys freeze soft LCP
+const SOFT_LCP_FINALIZE_EVENTS = ['keydown', 'click'] as const;
+
+// Falls back to now when the page has not marked this visit
+function getRouteStartTime(route: Page, since: number): number {
+  const marks = performance.getEntriesByName(ROUTE_START_MARKS[route], 'mark');
+  const latest = marks[marks.length - 1];
+  return latest && latest.startTime >= since ? latest.startTime : performance.now();
+}
+
+function findResourceEnd(url: string): number | null {
+  const entries = performance.getEntriesByName(url, 'resource') as PerformanceResourceTiming[];
+  const latest = entries[entries.length - 1];
+  return latest ? latest.responseEnd : null;
+}
+
+class RouteSession {
+  readonly id: number;
+  readonly startTime: number;
+  endTime: number | null = null;
+
+  private clsWindows = new CLSSessionWindows();
+  private interactions: InteractionTracker;
+  private longTasks = 0;
+  private observer: PerformanceObserver | null = null;
+
+  private firstFrameTime: number | null = null;
+  private softLCP: { value: number; element: string | null } | null = null;
+  private lcpFinal = false;
+
+  constructor(
+    id: number,
+    readonly route: Page,
+    readonly path: string,
+    readonly navigationType: 'hard' | 'soft',
+    startTime: number,
+    private onChange: () => void
+  ) {
+    this.id = id;
+    this.startTime = startTime;
+    this.interactions = new InteractionTracker(undefined, navigationType === 'soft' ? startTime : 0);
+    this.interactions.start();
+    this.interactions.subscribe(() => this.onChange());
+
+    this.observe();
+
+    if (navigationType === 'soft') {
+      requestAnimationFrame(() => {
+        this.firstFrameTime = performance.now();
+        this.updateSoftLCP();
+      });
+      // load does not bubble, so listen in the capture phase
+      document.addEventListener('load', this.handleImageLoad, true);
+      SOFT_LCP_FINALIZE_EVENTS.forEach(type => {
+        window.addEventListener(type, this.finalizeLCP, { once: true, capture: true, passive: true });
+      });
+    }
+  }
+
+  end(): void {
+    this.finalizeLCP();
+    this.endTime = performance.now();
+    this.observer?.disconnect();
+    this.observer = null;
+    this.interactions.stop();
+  }
+
+  toMetrics(): RouteMetrics {
+    const lcp = this.getLCP();
+    return {
+      id: this.id,
+      route: this.route,
+      path: this.path,
+      navigationType: this.navigationType,
+      startTime: this.startTime,
+      endTime: this.endTime,
+      lcp: lcp?.value ?? null,
+      lcpElement: lcp?.element ?? null,
+      cls: this.clsWindows.value,
+      inp: this.interactions.getINP(),
+      interactionCount: this.interactions.getInteractionCount(),
+      longTasks: this.longTasks,
+    };
+  }
+
+  private observe(): void {
+    if (typeof PerformanceObserver === 'undefined') return;
+
+    try {
+      this.observer = new PerformanceObserver(list => {
+        list.getEntries().forEach(entry => {
+          if (entry.startTime < this.startTime && this.navigationType === 'soft') return;
+
+          if (entry.entryType === 'layout-shift') {
+            const shift = entry as LayoutShiftEntry;
+            if (!shift.hadRecentInput) this.clsWindows.add(shift);
+          } else if (entry.entryType === 'longtask') {
+            this.longTasks++;
+          }
+        });
+        this.onChange();
+      });
+      this.observer.observe({ type: 'layout-shift', buffered: true });
+      this.observer.observe({ type: 'longtask', buffered: true });
+    } catch (error) {
+      console.warn('Failed to observe route metrics:', error);
+    }
+  }
+
+  private getLCP(): { value: number; element: string | null } | null {
+    if (this.navigationType === 'hard') {
+      const { vitals, attribution } = getMetricsEngine().getSnapshot();
+      return vitals.lcp ? { value: vitals.lcp.value, element: attribution.lcp?.element ?? null } : null;
+    }
+    return this.softLCP;
+  }
+
+  // Largest loaded image in the viewport inside <main>; text-only pages use the first frame
+  private measureSoftLCP(): { value: number; element: string | null } | null {
+    if (this.firstFrameTime === null) return null;
+
+    let largest: HTMLImageElement | null = null;
+    let largestArea = 0;
+    for (const image of Array.from(document.querySelectorAll<HTMLImageElement>('main img'))) {
+      if (!image.complete || image.naturalWidth === 0) continue;
+
+      const rect = image.getBoundingClientRect();
+      const width = Math.max(0, Math.min(rect.right, window.innerWidth) - Math.max(rect.left, 0));
+      const height = Math.max(0, Math.min(rect.bottom, window.innerHeight) - Math.max(rect.top, 0));
+      if (width * height > largestArea) {
+        largest = image;
+        largestArea = width * height;
+      }
+    }
+
+    if (!largest) {
+      return { value: this.firstFrameTime - this.startTime, element: null };
+    }
+
+    // Cached images finished loading before the navigation; they paint with the first frame
+    const loadEnd = findResourceEnd(largest.currentSrc) ?? this.firstFrameTime;
+    return {
+      value: Math.max(this.firstFrameTime, loadEnd) - this.startTime,
+      element: getSelector(largest),
+    };
+  }
+
+  // Reads the DOM, so only on the first frame, image loads and finalization, not on every toMetrics()
+  private updateSoftLCP(): void {
+    if (this.lcpFinal) return;
+    this.softLCP = this.measureSoftLCP();
+    this.onChange();
+  }
+
+  private handleImageLoad = (event: Event): void => {
+    if (event.target instanceof HTMLImageElement && event.target.closest('main')) {
+      this.updateSoftLCP();
+    }
+  };
+
+  // Arrow function so the same reference can be removed again
+  private finalizeLCP = (): void => {
+    if (this.navigationType === 'hard' || this.lcpFinal) return;
+
+    this.updateSoftLCP();
+    this.lcpFinal = true;
+    document.removeEventListener('load', this.handleImageLoad, true);
+    SOFT_LCP_FINALIZE_EVENTS.forEach(type => window.removeEventListener(type, this.finalizeLCP, true));
+  };
+}
+
+let sessions: RouteSession[] = [];
+let nextSessionId = 1;
+const listeners = new Set<() => void>();
+
+function notify(): void {
+  listeners.forEach(listener => listener());
+}
+
+// Called on every pathname change, after the new page's effects added its start mark;
+// the first call covers the initial document load
+export function startRouteSession(route: Page, path: string): void {
+  if (typeof window === 'undefined') return;
+
+  const current = sessions[sessions.length - 1];
+  if (current?.path === path && current.endTime === null) return;
+  current?.end();
+
+  const navigationType = current ? 'soft' : 'hard';
+  const startTime = navigationType === 'hard' ? 0 : getRouteStartTime(route, current.startTime);
+
+  sessions = [
+    ...sessions,
+    new RouteSession(nextSessionId++, route, path, navigationType, startTime, notify),
+  ].slice(-MAX_SESSIONS);
+  notify();
+}
+
+export function getRouteSessions(): RouteMetrics[] {
+  return sessions.map(session => session.toMetrics());
+}
+
+export function getRouteSummaries(): RouteSummary[] {
+  const byRoute = new Map<Page, RouteMetrics[]>();
+  getRouteSessions().forEach(metrics => {
+    byRoute.set(metrics.route, [...(byRoute.get(metrics.route) ?? []), metrics]);
+  });
+
+  return Array.from(byRoute.entries()).map(([route, visits]) => ({
+    route,
+    visits: visits.length,
+    lcp: median(visits.flatMap(v => (v.lcp === null ? [] : [v.lcp]))),
+    cls: median(visits.map(v => v.cls)) ?? 0,
+    inp: median(visits.flatMap(v => (v.inp === null ? [] : [v.inp]))),
+    longTasks: median(visits.map(v => v.longTasks)) ?? 0,
+    latest: visits[visits.length - 1],
+  }));
+}
+
+export function subscribeToRouteMetrics(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,70 @@
+// Route table for HyperCart Lab
+// Maps the page names used by the onNavigate props to real URLs
+
+export type Page = 'home' | 'products' | 'search' | 'checkout' | 'product-detail' | 'not-found';
+
+export const ROUTES = {
+  home: '/',
+  products: '/products',
+  productDetail: '/products/:productId',
+  search: '/search',
+  checkout: '/checkout',
+} as const;
+
+// Query parameters that survive in-app navigation (e.g. ?debug=1 keeps the debug panel)
+const PERSISTENT_PARAMS = ['debug'];
+
+export function getProductPath(productId: number): string {
+  return `${ROUTES.products}/${productId}`;
+}
+
+export function getPagePath(page: string): string {
+  switch (page) {
+    case 'home':
+      return ROUTES.home;
+    case 'products':
+    case 'product-detail':
+      return ROUTES.products;
+    case 'search':
+      return ROUTES.search;
+    case 'checkout':
+      return ROUTES.checkout;
+    default:
+      console.warn(`Unknown page "${page}", navigating home`);
+      return ROUTES.home;
+  }
+}
+
+export function getPageFromPath(pathname: string): Page {
+  const path = pathname.replace(/\/+$/, '') || '/';
+
+  if (path === ROUTES.home) return 'home';
+  if (path === ROUTES.products) return 'products';
+  if (/^\/products\/[^/]+$/.test(path)) return 'product-detail';
+  if (path === ROUTES.search) return 'search';
+  if (path === ROUTES.checkout) return 'checkout';
+  return 'not-found';
+}
+
+export function parseProductId(param: string | undefined): number | null {
+  if (!param || !/^\d+$/.test(param)) return null;
+  const id = Number(param);
+  return Number.isSafeInteger(id) && id > 0 ? id : null;
+}
+
+// Carry persistent query parameters from the current URL over to the target path
+export function withPersistentParams(path: string, currentSearch: string): string {
+  const current = new URLSearchParams(currentSearch);
+  const [pathname, query = ''] = path.split('?');
+  const target = new URLSearchParams(query);
+
+  PERSISTENT_PARAMS.forEach(param => {
+    const value = current.get(param);
+    if (value !== null && !target.has(param)) {
+      target.set(param, value);
+    }
+  });
+
+  const search = target.toString();
+  return search ? `${pathname}?${search}` : pathname;
+}
@@ -0,0 +1,66 @@
+// Small statistics helpers for comparing runs
+
+export function mean(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0) / values.length;
+}
+
+export function standardDeviation(values: number[], average = mean(values)): number {
+  return Math.sqrt(mean(values.map(value => (value - average) ** 2)));
+}
+
+// Linear interpolation between the closest ranks; p in 0-1
+export function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (sorted.length - 1) * p;
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+export function median(values: number[]): number | null {
+  return percentile(values, 0.5);
+}
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26, error below 1.5e-7)
+function normalCdf(z: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(z) / Math.SQRT2);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))))
+    * Math.exp(-(z * z) / 2);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+// Two-sided Mann-Whitney U test, with the normal approximation and a tie correction.
+// Makes no assumption about the distribution, which suits skewed timings; with fewer
+// than about 5 runs per side the p-value is only a rough guide.
+export function mannWhitneyU(a: number[], b: number[]): { u: number; pValue: number } | null {
+  if (a.length === 0 || b.length === 0) return null;
+
+  const combined = [...a.map(value => ({ value, group: 0 })), ...b.map(value => ({ value, group: 1 }))]
+    .sort((x, y) => x.value - y.value);
+
+  // Tied values share the average of their ranks
+  const ranks = new Array<number>(combined.length);
+  let tieTerm = 0;
+  for (let i = 0; i < combined.length;) {
+    let j = i;
+    while (j + 1 < combined.length && combined[j + 1].value === combined[i].value) j++;
+    const rank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) ranks[k] = rank;
+    const ties = j - i + 1;
+    tieTerm += ties ** 3 - ties;
+    i = j + 1;
+  }
+
+  const n1 = a.length;
+  const n2 = b.length;
+  const rankSumA = combined.reduce((total, item, index) => (item.group === 0 ? total + ranks[index] : total), 0);
+  const u = rankSumA - (n1 * (n1 + 1)) / 2;
+
+  const n = n1 + n2;
+  const variance = ((n1 * n2) / 12) * (n + 1 - tieTerm / (n * (n - 1)));
+  if (variance <= 0) return { u, pValue: 1 };
+
+  const z = (u - (n1 * n2) / 2) / Math.sqrt(variance);
+  return { u, pValue: Math.min(1, 2 * (1 - normalCdf(Math.abs(z)))) };
+}
@@ -1,28 +1,15 @@
-export interface PerformanceFlags {
-  // LCP/CLS flags
-  heroPreload: boolean;
-  heroFetchPriorityHigh: boolean;
-  fontPreconnect: boolean;
-  reserveHeroSpace: boolean;
-  lateBanner: boolean;
-  
-  // Coverage/Network flags
-  injectThirdParty: boolean;
-  loadExtraCSS: boolean;
-  lazyOff: boolean;
-  
-  // INP/Long Tasks flags
-  listenersPassive: boolean;
-  simulateLongTask: boolean;
-  useWorker: boolean;
-  
-  // Search flags
-  debounce: boolean;
-  microYield: boolean;
-  
-  // CLS/UX flags
-  missingSizes: boolean;
-  intrinsicPlaceholders: boolean;
+import type { PerformanceFlags } from './flag-registry';
+
+// Flag types are derived from FLAG_REGISTRY in flag-registry.ts
+export type { PerformanceFlags, BooleanFlagKey, FlagParameterKey, FlagKey, YieldStrategy } from './flag-registry';
+
+export interface FlagScenario {
+  id: string;
+  name: string;
+  description: string;
+  // Flags not listed fall back to their defaults when the scenario is applied
+  flags: Partial<PerformanceFlags>;
+  builtIn: boolean;
 }
 
 export interface Product {
@@ -0,0 +1,122 @@
+// User Timing: the marks and measures the pages emit (home-page-load, search-operation,
+// add-to-cart-interaction, main-thread-block...), collected by one buffered observer.
+// Clearing only resets what is collected here: the marks stay in the browser's timeline
+// because route metrics read their start marks from it.
+
+import { median } from './stats';
+
+export interface UserTimingMark {
+  name: string;
+  startTime: number;
+}
+
+export interface MeasureSummary {
+  name: string;
+  count: number;
+  // Over the last 100 measures with this name
+  min: number;
+  median: number;
+  max: number;
+  // The most recent measure with this name
+  last: number;
+  lastStartTime: number;
+}
+
+export interface UserTimingSummary {
+  measures: MeasureSummary[];
+  // Newest last
+  marks: UserTimingMark[];
+}
+
+// Keep a long session from growing without bound; recent entries are the interesting ones
+const MAX_MARKS = 200;
+const MAX_DURATIONS_PER_MEASURE = 100;
+
+export class UserTimingRecorder {
+  private marks: UserTimingMark[] = [];
+  // count includes measures whose durations were dropped to stay under the cap
+  private measures = new Map<string, { count: number; durations: number[]; lastStartTime: number }>();
+  private observer: PerformanceObserver | null = null;
+  private listeners = new Set<(summary: UserTimingSummary) => void>();
+
+  start(): void {
+    if (this.observer || typeof PerformanceObserver === 'undefined') return;
+
+    try {
+      this.observer = new PerformanceObserver((list) => {
+        list.getEntries().forEach(entry => this.processEntry(entry));
+        this.notify();
+      });
+      this.observer.observe({ type: 'mark', buffered: true });
+      this.observer.observe({ type: 'measure', buffered: true });
+    } catch (error) {
+      console.warn('User Timing observer not supported:', error);
+    }
+  }
+
+  stop(): void {
+    this.observer?.disconnect();
+    this.observer = null;
+  }
+
+  clear(): void {
+    this.marks = [];
+    this.measures.clear();
+    this.notify();
+  }
+
+  processEntry(entry: PerformanceEntry): void {
+    if (entry.entryType === 'mark') {
+      this.marks.push({ name: entry.name, startTime: entry.startTime });
+      this.marks.sort((a, b) => a.startTime - b.startTime);
+      this.marks.splice(0, this.marks.length - MAX_MARKS);
+      return;
+    }
+
+    const measure = this.measures.get(entry.name) ?? { count: 0, durations: [], lastStartTime: 0 };
+    measure.count++;
+    measure.durations.push(entry.duration);
+    measure.durations.splice(0, measure.durations.length - MAX_DURATIONS_PER_MEASURE);
+    measure.lastStartTime = Math.max(measure.lastStartTime, entry.startTime);
+    this.measures.set(entry.name, measure);
+  }
+
+  getSummary(): UserTimingSummary {
+    const measures = [...this.measures].map(([name, { count, durations, lastStartTime }]) => ({
+      name,
+      count,
+      min: Math.min(...durations),
+      median: median(durations) ?? 0,
+      max: Math.max(...durations),
+      last: durations[durations.length - 1],
+      lastStartTime,
+    }));
+
+    return {
+      measures: measures.sort((a, b) => b.lastStartTime - a.lastStartTime),
+      marks: [...this.marks],
+    };
+  }
+
+  subscribe(listener: (summary: UserTimingSummary) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    const summary = this.getSummary();
+    this.listeners.forEach(listener => listener(summary));
+  }
+}
+
+let globalRecorder: UserTimingRecorder | null = null;
+
+export function getUserTimingRecorder(): UserTimingRecorder {
+  if (!globalRecorder) {
+    globalRecorder = new UserTimingRecorder();
+    globalRecorder.start();
+  }
+  return globalRecorder;
+}
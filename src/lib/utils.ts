@@ -4,3 +4,17 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Saves text as a file through a temporary object URL
+export function downloadFile(content: string, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  // Older Firefox only follows clicks on attached links
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  // Revoking right after the click can cancel the download in Firefox and Safari
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
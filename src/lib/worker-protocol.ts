@@ -0,0 +1,77 @@
+// Message protocol shared by WorkerManager (main thread) and src/workers/product.worker.ts
+// Every request carries a taskId which the worker echoes back in its reply
+
+import { Product } from './types';
+
+export interface SearchPayload {
+  query: string;
+  products: Product[];
+}
+
+export interface SearchResult extends Product {
+  searchScore: number;
+  workerProcessed: true;
+}
+
+export interface FormattedProduct extends Product {
+  formattedPrice: string;
+  formattedDescription: string;
+  metadata: {
+    processed: string;
+    worker: boolean;
+  };
+}
+
+export interface HeavyComputationResult {
+  input: unknown;
+  result: number;
+  iterations: number;
+  timestamp: number;
+}
+
+// Payload and result types for each task the worker understands
+export interface WorkerTaskMap {
+  search: { payload: SearchPayload; result: SearchResult[] };
+  'format-product': { payload: Product; result: FormattedProduct };
+  'heavy-computation': { payload: unknown; result: HeavyComputationResult };
+}
+
+export type WorkerTaskType = keyof WorkerTaskMap;
+export type WorkerTaskPayload<T extends WorkerTaskType> = WorkerTaskMap[T]['payload'];
+export type WorkerTaskResult<T extends WorkerTaskType> = WorkerTaskMap[T]['result'];
+
+// Main thread -> worker
+export type WorkerRequest = {
+  [T in WorkerTaskType]: {
+    kind: 'request';
+    taskId: number;
+    type: T;
+    payload: WorkerTaskPayload<T>;
+  };
+}[WorkerTaskType];
+
+// Worker -> main thread
+export type WorkerResultMessage = {
+  [T in WorkerTaskType]: {
+    kind: 'result';
+    taskId: number;
+    type: T;
+    result: WorkerTaskResult<T>;
+    duration: number;
+  };
+}[WorkerTaskType];
+
+export interface WorkerErrorMessage {
+  kind: 'error';
+  taskId: number;
+  type: string;
+  message: string;
+}
+
+export type WorkerResponse = WorkerResultMessage | WorkerErrorMessage;
+
+export function isWorkerResponse(data: unknown): data is WorkerResponse {
+  if (!data || typeof data !== 'object') return false;
+  const message = data as Partial<WorkerResponse>;
+  return (message.kind === 'result' || message.kind === 'error') && typeof message.taskId === 'number';
+}
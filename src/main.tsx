@@ -1,16 +1,38 @@
 import { createRoot } from 'react-dom/client'
 import { ErrorBoundary } from "react-error-boundary";
+import { BrowserRouter } from 'react-router-dom'
 // Removed GitHub Spark import for standalone operation
 
 import App from './App.tsx'
 import { ErrorFallback } from './ErrorFallback.tsx'
+import { startFlagEffects } from './lib/flag-effects'
+import { getMetricsEngine } from './lib/metrics-engine'
+import { getUserTimingRecorder } from './lib/user-timing'
+import { startPerformanceHistory } from './lib/performance-history'
+import { resumeExperiment } from './lib/experiment-runner'
 
 import "./main.css"
 import "./styles/theme.css"
 import "./index.css"
 
+// Stored flags inject their scripts and stylesheets before the first render
+startFlagEffects()
+
+// Observe Web Vitals and User Timing from the start, before any metrics panel is opened
+// or a report is exported
+getMetricsEngine()
+getUserTimingRecorder()
+
+// Store this page load in IndexedDB once its metrics settle
+startPerformanceHistory()
+
+// A running A/B experiment records this load and moves on to the next one
+resumeExperiment()
+
 createRoot(document.getElementById('root')!).render(
   <ErrorBoundary FallbackComponent={ErrorFallback}>
-    <App />
+    <BrowserRouter basename={import.meta.env.BASE_URL}>
+      <App />
+    </BrowserRouter>
    </ErrorBoundary>
 )
@@ -0,0 +1,113 @@
+// Web Worker for heavy computations
+// Used to demonstrate moving work off the main thread. Bundled by Vite as a
+// module worker and reuses the search/format helpers from src/lib/products.ts
+
+import { filterProducts, formatProduct, getSearchTerms } from '@/lib/products';
+import type {
+  HeavyComputationResult,
+  SearchPayload,
+  SearchResult,
+  FormattedProduct,
+  WorkerRequest,
+  WorkerResponse,
+  WorkerTaskResult,
+} from '@/lib/worker-protocol';
+import type { Product } from '@/lib/types';
+
+function post(message: WorkerResponse): void {
+  self.postMessage(message);
+}
+
+self.onmessage = (e: MessageEvent<WorkerRequest>) => {
+  const request = e.data;
+  
+  if (!request || request.kind !== 'request' || typeof request.taskId !== 'number') {
+    return;
+  }
+  
+  const { taskId, type } = request;
+  performance.mark(`worker-start-${taskId}`);
+  const start = performance.now();
+  
+  try {
+    const result = runTask(request);
+    post({ kind: 'result', taskId, type, result, duration: performance.now() - start } as WorkerResponse);
+  } catch (error) {
+    post({
+      kind: 'error',
+      taskId,
+      type,
+      message: error instanceof Error ? error.message : String(error)
+    });
+  } finally {
+    performance.mark(`worker-end-${taskId}`);
+    performance.measure('worker-task', `worker-start-${taskId}`, `worker-end-${taskId}`);
+  }
+};
+
+function runTask(request: WorkerRequest): WorkerTaskResult<WorkerRequest['type']> {
+  switch (request.type) {
+    case 'search':
+      return performSearch(request.payload);
+      
+    case 'format-product':
+      return formatProductData(request.payload);
+      
+    case 'heavy-computation':
+      return performHeavyComputation(request.payload);
+      
+    default:
+      throw new Error(`Unknown task type: ${(request as { type: string }).type}`);
+  }
+}
+
+function performSearch({ query, products }: SearchPayload): SearchResult[] {
+  if (!query || !products) {
+    return [];
+  }
+  
+  // Simulate heavy search computation in worker (doesn't block main thread)
+  for (let i = 0; i < 100000; i++) {
+    Math.sin(i) * Math.cos(i);
+  }
+  
+  const searchTerms = getSearchTerms(query);
+  
+  if (searchTerms.length === 0) {
+    return [];
+  }
+  
+  // Return results with computed scores for demo
+  return filterProducts(products, searchTerms).map(product => ({
+    ...product,
+    searchScore: Math.random() * 100, // Demo: computed relevance score
+    workerProcessed: true as const // Flag to show it was processed by worker
+  })).slice(0, 20);
+}
+
+function formatProductData(product: Product): FormattedProduct {
+  // Simulate complex formatting operations
+  const start = performance.now();
+  
+  // Intentionally slow formatting
+  while (performance.now() - start < 50) {
+    JSON.stringify(product);
+  }
+  
+  return formatProduct(product, true);
+}
+
+function performHeavyComputation(data: unknown): HeavyComputationResult {
+  // Simulate CPU-intensive work
+  let result = 0;
+  for (let i = 0; i < 1000000; i++) {
+    result += Math.sin(i) * Math.cos(i);
+  }
+  
+  return {
+    input: data,
+    result: result,
+    iterations: 1000000,
+    timestamp: performance.now()
+  };
+}
@@ -44,6 +44,10 @@ export default defineConfig({
       }
     }
   },
+  worker: {
+    // Module workers share chunks with the main bundle (e.g. src/lib/products.ts)
+    format: 'es'
+  },
   optimizeDeps: {
     // Pre-bundle these dependencies for better performance
     include: ['react', 'react-dom', 'react-router-dom'],